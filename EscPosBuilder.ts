@@ -0,0 +1,817 @@
+import {
+    horizontalTab,
+    printAndLineFeed,
+    printAndReturnToStandardModeInPageMode,
+    cancelPrintDataInPageMode,
+    printDataInPageMode,
+    setRightSideCharacterSpacing,
+    selectPrintModes,
+    setAbsolutePrintPosition,
+    selectUserDefinedCharacterSet,
+    defineUserDefinedCharacterSet,
+    selectBitImageMode,
+    underline,
+    selectDefaultLineSpacing,
+    setLineSpacing,
+    cancelUserDefinedCharacters,
+    initialise,
+    setHorizontalTabPositions,
+    bold,
+    doubleStrike,
+    printAndFeedPaper,
+    selectPageMode,
+    selectFont,
+    selectInternationalCharacterSet,
+    selectStandardMode,
+    selectPrintDirectionInPageMode,
+    setPrintAreaInPageMode,
+    setRelativePrintPosition,
+    selectJustification,
+    printAndFeedLines,
+    generatePulse,
+    selectCharacterCodeTable,
+    setUpsideDown,
+    selectKanjiPrintModes,
+    selectKanjiCharacterMode,
+    cancelKanjiCharacterMode,
+    selectKanjiCharacterCodeSystem,
+    setKanjiCharacterSpacing,
+    selectCharacterSize,
+    setAbsoluteVerticalPrintPositionInPageMode,
+    inverse,
+    selectPrintPositionOfBarcodeHriCharacters,
+    setLeftMargin,
+    setHorizontalAndVerticalMotionUnits,
+    cut,
+    setPrintAreaWidth,
+    setRelativeVerticalPrintPositionInPageMode,
+    setSmoothing,
+    selectFontForBarcodeHriCharacters,
+    setBarcodeHeight,
+    setBarcodeWidth,
+    transmitRealTimeStatus,
+    generatePulseInRealTime,
+    soundBuzzerInRealTime,
+    clearBuffers,
+    setAutomaticStatusBack,
+} from './EscPosEncoder.js'
+
+import type {
+    AutomaticStatusBackOptions,
+    Font,
+    InternationalCharacterSet,
+    Justification,
+    CharacterCodeTable,
+    DrawerPin,
+    KanjiCodeSystem,
+    PrintPositionOfHriCharacters,
+} from './EscPosEncoder.js'
+
+import {
+    printBarcodeCodabar,
+    printBarcodeCode128,
+    printBarcodeCode39,
+    printBarcodeCode93,
+    printBarcodeEan13,
+    printBarcodeEan8,
+    printBarcodeItf,
+    printBarcodeUpcA,
+    printBarcodeUpcE,
+    printDataMatrix,
+    printGs1DataBar,
+    printPdf417,
+    printQrCode,
+} from './barcodes.js'
+import { code128Image, ean13Image, qrCodeImage } from './barcodeImages.js'
+import { GraphicsError } from './errors.js'
+import { printImage, printStoredGraphics, setGraphicsDotDensity } from './graphics.js'
+import { charactersPerLine, tableLines, twoColumn, wrap } from './layout.js'
+import {
+    assertSupported,
+    autoCodeTables,
+    DEFAULT_PROFILE,
+    getProfile,
+    imageCommandFor,
+} from './profiles.js'
+import { encodeMultiByteText, encodeText, encodeTextAuto } from './utils/text.js'
+
+import type {
+    Code128CodeSet,
+    DataMatrixOptions,
+    Gs1DataBarType,
+    Pdf417Options,
+    QrCodeOptions,
+} from './barcodes.js'
+import type { GraphicsDotDensity, GraphicsMemory, ImageCommand } from './graphics.js'
+import type { LayoutOptions, TableColumn, TableOptions } from './layout.js'
+import type PageCanvas from './PageCanvas.js'
+import type { PrinterProfile, ProfileName, Symbology } from './profiles.js'
+import type { MultiByteEncoding } from './utils/multiByte.js'
+import type { TextFallback } from './utils/text.js'
+
+/**
+ * The character styles the builder keeps track of, so that they can be reset
+ * without having to re-initialise the whole printer.
+ */
+export type Style = {
+    font: Font
+    bold: boolean
+    doubleStrike: boolean
+    underline: 0 | 1 | 2
+    inverse: boolean
+    upsideDown: boolean
+    smoothing: boolean
+    width: number
+    height: number
+}
+
+/** The style the printer is in after power on or ESC @ */
+export const DEFAULT_STYLE: Readonly<Style> = {
+    font: 'A',
+    bold: false,
+    doubleStrike: false,
+    underline: 0,
+    inverse: false,
+    upsideDown: false,
+    smoothing: false,
+    width: 1,
+    height: 1,
+}
+
+/**
+ * Chainable wrapper around the command functions in EscPosEncoder.ts
+ *
+ * Commands the printer's profile says it doesn't have throw an
+ * UnsupportedCommandError, except for a few that can be done another way:
+ * CODE128, EAN-13 and QR Codes are printed as images, and cut() only feeds
+ * the paper on printers without a cutter.
+ *
+ * ```ts
+ * const buffer = new EscPosBuilder('tm-t20')
+ *     .initialise()
+ *     .align('centered')
+ *     .size(2, 2)
+ *     .bold()
+ *     .line('Shopping list')
+ *     .resetStyle()
+ *     .feed(3)
+ *     .cut()
+ *     .toBuffer()
+ * ```
+ */
+export default class EscPosBuilder {
+    private data: number[] = []
+
+    /** What the printer can do, see profiles.ts */
+    readonly profile: PrinterProfile
+
+    style: Style = { ...DEFAULT_STYLE }
+    justification: Justification = 'left'
+
+    /** The table text is encoded for, as selected with codeTable (ESC t) */
+    characterCodeTable: CharacterCodeTable = 'pc437-usa-standard-europe'
+
+    /** Whether text switches tables on its own, see codeTable('auto') */
+    autoCodeTable = false
+
+    /** What to print for characters that the table (or, in auto mode, every table) doesn't have */
+    fallback: TextFallback = '?'
+
+    /** The encoding for Japanese, Chinese or Korean text, see multiByteEncoding */
+    textEncoding?: MultiByteEncoding = undefined
+
+    /** Whether the printer is in Kanji character mode, or undefined when it isn't known */
+    kanji?: boolean = undefined
+
+    /** Width of the print area in dots, for laying out text. Starts out as the profile's */
+    printWidth: number
+
+    /**
+     * The command image() prints with. Starts out as the one the profile
+     * prefers, and falls back to that if the printer doesn't have it.
+     */
+    imageCommand: ImageCommand
+
+    constructor(profile: ProfileName | PrinterProfile = DEFAULT_PROFILE) {
+        this.profile = getProfile(profile)
+        this.printWidth = this.profile.printWidth
+        this.imageCommand = imageCommandFor(this.profile)
+    }
+
+    /** Appends raw bytes (or the output of any encoder function) */
+    raw(...commands: (number | number[])[]) {
+        for (const command of commands) {
+            if (Array.isArray(command)) {
+                for (const byte of command) this.data.push(byte)
+            } else {
+                this.data.push(command)
+            }
+        }
+
+        return this
+    }
+
+    /** Appends text without a line feed, encoded for the current character code table */
+    text(s: string) {
+        if (this.textEncoding) {
+            const { data, kanjiMode } = encodeMultiByteText(s, this.textEncoding, {
+                table: this.characterCodeTable,
+                kanjiMode: this.kanji,
+                fallback: this.fallback,
+            })
+            this.kanji = kanjiMode
+
+            return this.raw(data)
+        }
+
+        if (!this.autoCodeTable) {
+            return this.raw(encodeText(s, this.characterCodeTable, { fallback: this.fallback }))
+        }
+
+        const { data, table } = encodeTextAuto(s, this.characterCodeTable, {
+            tables: autoCodeTables(this.profile),
+            fallback: this.fallback,
+        })
+        this.characterCodeTable = table
+
+        return this.raw(data)
+    }
+
+    /** Appends text followed by a line feed. Without text, just feeds one line */
+    line(s: string = '') {
+        return this.text(s).newline()
+    }
+
+    /** Options for layout.ts that match the tracked font, width and character code table */
+    get layout(): LayoutOptions {
+        return {
+            font: this.style.font,
+            width: this.style.width,
+            profile: this.profile,
+            printWidth: this.printWidth,
+            table: this.autoCodeTable ? 'auto' : this.characterCodeTable,
+            tables: autoCodeTables(this.profile),
+            encoding: this.textEncoding,
+            fallback: this.fallback,
+        }
+    }
+
+    /** Appends text word-wrapped to the line length of the current font and size, ending with a line feed */
+    wrapped(s: string) {
+        for (const line of wrap(s, charactersPerLine(this.layout), this.layout)) this.line(line)
+
+        return this
+    }
+
+    /** Appends "item ..... price" lines, see twoColumn in layout.ts */
+    twoColumn(left: string, right: string, fill: string = '.') {
+        for (const line of twoColumn(left, right, fill, this.layout)) this.line(line)
+
+        return this
+    }
+
+    /** Appends a table laid out for the current font, size and character code table, see tableLines in layout.ts */
+    table(rows: string[][], columns: TableColumn[], options: Omit<TableOptions, keyof LayoutOptions> = {}) {
+        for (const line of tableLines(rows, columns, { ...this.layout, ...options })) this.line(line)
+
+        return this
+    }
+
+    /** Sets several style properties at once, only emitting commands for the ones that change */
+    setStyle(style: Partial<Style>) {
+        if (style.font != undefined && style.font != this.style.font) this.font(style.font)
+        if (style.bold != undefined && style.bold != this.style.bold) this.bold(style.bold)
+        if (style.doubleStrike != undefined && style.doubleStrike != this.style.doubleStrike) this.doubleStrike(style.doubleStrike)
+        if (style.underline != undefined && style.underline != this.style.underline) {
+            if (style.underline == 0) this.underline(false)
+            else this.underline(true, style.underline)
+        }
+        if (style.inverse != undefined && style.inverse != this.style.inverse) this.inverse(style.inverse)
+        if (style.upsideDown != undefined && style.upsideDown != this.style.upsideDown) this.upsideDown(style.upsideDown)
+        if (style.smoothing != undefined && style.smoothing != this.style.smoothing) this.smoothing(style.smoothing)
+
+        const width = style.width ?? this.style.width
+        const height = style.height ?? this.style.height
+        if (width != this.style.width || height != this.style.height) this.size(width, height)
+
+        return this
+    }
+
+    /** Returns every tracked style property to its default, only emitting commands for the ones that differ */
+    resetStyle() {
+        return this.setStyle(DEFAULT_STYLE)
+    }
+
+    /** ESC @ -- also resets the tracked style, justification and character code table */
+    initialise() {
+        this.style = { ...DEFAULT_STYLE }
+        this.justification = 'left'
+        this.characterCodeTable = 'pc437-usa-standard-europe'
+        // CJK models go back to Kanji character mode, others don't have it
+        this.kanji = undefined
+        this.printWidth = this.profile.printWidth
+
+        return this.raw(initialise())
+    }
+
+    /** HT */
+    tab() {
+        return this.raw(horizontalTab())
+    }
+
+    /** LF */
+    newline() {
+        return this.raw(printAndLineFeed())
+    }
+
+    /** ESC d */
+    feed(lines: number = 1) {
+        return this.raw(printAndFeedLines(lines))
+    }
+
+    /** ESC J */
+    feedDots(n: number) {
+        return this.raw(printAndFeedPaper(n))
+    }
+
+    /** ESC SP */
+    characterSpacing(n: number = 0) {
+        return this.raw(setRightSideCharacterSpacing(n))
+    }
+
+    /** ESC ! -- replaces font, emphasis, double width/height and underline in one go */
+    printModes(
+        font: Font,
+        emphasised: boolean = false,
+        doubleHeight: boolean = false,
+        doubleWidth: boolean = false,
+        underline: boolean = false,
+    ) {
+        this.assertFont(font)
+
+        this.style.font = font
+        this.style.bold = emphasised
+        this.style.height = doubleHeight ? 2 : 1
+        this.style.width = doubleWidth ? 2 : 1
+        this.style.underline = underline ? 1 : 0
+
+        return this.raw(selectPrintModes(font, emphasised, doubleHeight, doubleWidth, underline))
+    }
+
+    /** ESC $ */
+    position(value: number) {
+        return this.raw(setAbsolutePrintPosition(value))
+    }
+
+    /** ESC \ */
+    relativePosition(d: number) {
+        return this.raw(setRelativePrintPosition(d))
+    }
+
+    /** ESC % */
+    userDefinedCharacters(enable: boolean = true) {
+        return this.raw(selectUserDefinedCharacterSet(enable))
+    }
+
+    /** ESC & */
+    defineCharacters(verticalBytes: number, characterCodeRangeStart: number, characterCodeRangeEnd: number, data: number[][][]) {
+        return this.raw(defineUserDefinedCharacterSet(verticalBytes, characterCodeRangeStart, characterCodeRangeEnd, data))
+    }
+
+    /** ESC ? */
+    cancelCharacter(n: number) {
+        return this.raw(cancelUserDefinedCharacters(n))
+    }
+
+    /** ESC * */
+    bitImage(verticalDensity: number, horizontalDensity: 'single' | 'double', data: number[]) {
+        return this.raw(selectBitImageMode(verticalDensity, horizontalDensity, data))
+    }
+
+    /** ESC - */
+    underline(enable: boolean = true, thickness: 1 | 2 = 1) {
+        this.style.underline = enable ? thickness : 0
+
+        return this.raw(underline(enable, thickness))
+    }
+
+    /** ESC 3, or ESC 2 when no value is given */
+    lineSpacing(units?: number) {
+        if (units == undefined) return this.raw(selectDefaultLineSpacing())
+
+        return this.raw(setLineSpacing(units))
+    }
+
+    /** ESC D */
+    tabStops(stops?: number[]) {
+        return this.raw(setHorizontalTabPositions(stops))
+    }
+
+    /** ESC E */
+    bold(enable: boolean = true) {
+        this.style.bold = enable
+
+        return this.raw(bold(enable))
+    }
+
+    /** ESC G */
+    doubleStrike(enable: boolean = true) {
+        this.style.doubleStrike = enable
+
+        return this.raw(doubleStrike(enable))
+    }
+
+    /** ESC M */
+    font(font: Font) {
+        this.assertFont(font)
+
+        this.style.font = font
+
+        return this.raw(selectFont(font))
+    }
+
+    /** ESC R */
+    characterSet(characterSet: InternationalCharacterSet) {
+        return this.raw(selectInternationalCharacterSet(characterSet))
+    }
+
+    /**
+     * ESC t -- or 'auto', after which text picks whichever table has its
+     * characters and switches to it as it goes
+     */
+    codeTable(table: CharacterCodeTable | 'auto') {
+        if (table == 'auto') {
+            this.autoCodeTable = true
+            return this
+        }
+
+        assertSupported(this.profile, this.profile.codeTables.includes(table), `the ${table} code table`)
+
+        this.autoCodeTable = false
+        this.characterCodeTable = table
+
+        return this.raw(selectCharacterCodeTable(table))
+    }
+
+    /** ESC a */
+    align(justification: Justification = 'left') {
+        this.justification = justification
+
+        return this.raw(selectJustification(justification))
+    }
+
+    /** ESC { */
+    upsideDown(enable: boolean = true) {
+        this.style.upsideDown = enable
+
+        return this.raw(setUpsideDown(enable))
+    }
+
+    /**
+     * Encodes text with a multi-byte encoding from here on, for printers
+     * with Japanese, Chinese or Korean fonts. Kanji character mode is turned
+     * on and off as the text needs it; characters outside the encoding still
+     * come from the code table. Without an encoding, text is single-byte only.
+     */
+    multiByteEncoding(encoding?: MultiByteEncoding) {
+        if (encoding) assertSupported(this.profile, this.profile.multiByteEncodings.includes(encoding), `a ${encoding} font`)
+
+        this.textEncoding = encoding
+
+        return this
+    }
+
+    /** FS ! */
+    kanjiPrintModes(doubleWidth: boolean = false, doubleHeight: boolean = false, underline: boolean = false) {
+        if (doubleWidth || doubleHeight || underline) this.assertKanji()
+
+        return this.raw(selectKanjiPrintModes(doubleWidth, doubleHeight, underline))
+    }
+
+    /** FS & / FS . */
+    kanjiMode(enable: boolean = true) {
+        if (enable) this.assertKanji()
+
+        this.kanji = enable
+
+        return this.raw(enable ? selectKanjiCharacterMode() : cancelKanjiCharacterMode())
+    }
+
+    /** FS C */
+    kanjiCodeSystem(system: KanjiCodeSystem) {
+        if (system != 'jis') this.assertKanji()
+
+        return this.raw(selectKanjiCharacterCodeSystem(system))
+    }
+
+    /** FS S */
+    kanjiSpacing(left: number = 0, right: number = 0) {
+        if (left != 0 || right != 0) this.assertKanji()
+
+        return this.raw(setKanjiCharacterSpacing(left, right))
+    }
+
+    /** GS ! */
+    size(width: number = 1, height: number = width) {
+        this.style.width = width
+        this.style.height = height
+
+        return this.raw(selectCharacterSize(width, height))
+    }
+
+    /** GS B */
+    inverse(enable: boolean = true) {
+        this.style.inverse = enable
+
+        return this.raw(inverse(enable))
+    }
+
+    /** GS b */
+    smoothing(enable: boolean = true) {
+        this.style.smoothing = enable
+
+        return this.raw(setSmoothing(enable))
+    }
+
+    /** GS L */
+    leftMargin(n: number) {
+        return this.raw(setLeftMargin(n))
+    }
+
+    /** GS W -- in dots, with the default motion units. Text is laid out to fit it from here on */
+    printAreaWidth(width: number) {
+        this.printWidth = width
+
+        return this.raw(setPrintAreaWidth(width))
+    }
+
+    /** GS P */
+    motionUnits(x: number, y: number) {
+        return this.raw(setHorizontalAndVerticalMotionUnits(x, y))
+    }
+
+    /** GS V -- on printers without a cutter, only feeds the paper */
+    cut(feedVertical: number = 0) {
+        if (this.profile.cutter == 'none') return feedVertical > 0 ? this.feedDots(feedVertical) : this
+
+        return this.raw(cut(feedVertical))
+    }
+
+    /** ESC p -- kicks the cash drawer, on for t1 × 2 ms and off for t2 × 2 ms */
+    pulse(pin: DrawerPin = 2, t1: number = 50, t2: number = 100) {
+        return this.raw(generatePulse(pin, t1, t2))
+    }
+
+    /** GS H */
+    barcodeHriPosition(position: PrintPositionOfHriCharacters) {
+        return this.raw(selectPrintPositionOfBarcodeHriCharacters(position))
+    }
+
+    /** GS f */
+    barcodeHriFont(font: Font) {
+        return this.raw(selectFontForBarcodeHriCharacters(font))
+    }
+
+    /** GS h */
+    barcodeHeight(n: number) {
+        return this.raw(setBarcodeHeight(n))
+    }
+
+    /** GS w */
+    barcodeWidth(n: number) {
+        return this.raw(setBarcodeWidth(n))
+    }
+
+    /** GS k (UPC-A) */
+    upcA(data: string) {
+        this.assertSymbology('upc-a')
+
+        return this.raw(printBarcodeUpcA(data))
+    }
+
+    /** GS k (UPC-E) */
+    upcE(data: string) {
+        this.assertSymbology('upc-e')
+
+        return this.raw(printBarcodeUpcE(data))
+    }
+
+    /** GS k (EAN-13), or an image of one */
+    ean13(data: string) {
+        if (!this.profile.symbologies.includes('ean13')) return this.image(ean13Image(data))
+
+        return this.raw(printBarcodeEan13(data))
+    }
+
+    /** GS k (EAN-8) */
+    ean8(data: string) {
+        this.assertSymbology('ean8')
+
+        return this.raw(printBarcodeEan8(data))
+    }
+
+    /** GS k (CODE39) */
+    code39(data: string, checkDigit: boolean = false) {
+        this.assertSymbology('code39')
+
+        return this.raw(printBarcodeCode39(data, checkDigit))
+    }
+
+    /** GS k (ITF) */
+    itf(data: string, checkDigit: boolean = false) {
+        this.assertSymbology('itf')
+
+        return this.raw(printBarcodeItf(data, checkDigit))
+    }
+
+    /** GS k (CODABAR) */
+    codabar(data: string) {
+        this.assertSymbology('codabar')
+
+        return this.raw(printBarcodeCodabar(data))
+    }
+
+    /** GS k (CODE93) */
+    code93(data: string) {
+        this.assertSymbology('code93')
+
+        return this.raw(printBarcodeCode93(data))
+    }
+
+    /** GS k (CODE128), or an image of one */
+    code128(data: string, codeSet: Code128CodeSet | 'auto' = 'auto') {
+        if (!this.profile.symbologies.includes('code128')) return this.image(code128Image(data, { codeSet }))
+
+        return this.raw(printBarcodeCode128(data, codeSet))
+    }
+
+    /** GS ( k (QR Code), or an image of one with the same module size */
+    qrCode(data: string | Uint8Array, options: QrCodeOptions = {}) {
+        if (!this.profile.symbologies.includes('qr')) {
+            const { moduleSize = 3, errorCorrection = 'L' } = options
+
+            return this.image(qrCodeImage(data, { moduleSize, errorCorrection }))
+        }
+
+        return this.raw(printQrCode(data, options))
+    }
+
+    /** GS ( k (PDF417) */
+    pdf417(data: string | Uint8Array, options: Pdf417Options = {}) {
+        this.assertSymbology('pdf417')
+
+        return this.raw(printPdf417(data, options))
+    }
+
+    /** GS ( k (DataMatrix) */
+    dataMatrix(data: string | Uint8Array, options: DataMatrixOptions = {}) {
+        this.assertSymbology('data-matrix')
+
+        return this.raw(printDataMatrix(data, options))
+    }
+
+    /** GS ( k (GS1 DataBar) */
+    gs1DataBar(type: Gs1DataBarType, data: string, moduleWidth?: number) {
+        this.assertSymbology('gs1-databar')
+
+        return this.raw(printGs1DataBar(type, data, moduleWidth))
+    }
+
+    /**
+     * GS v 0, GS ( L or ESC *, depending on imageCommand -- optionally split
+     * into bands of `bandHeight` dots
+     */
+    image(data: number[][], verticalScale: 1 | 2 = 1, horizontalScale: 1 | 2 = 1, bandHeight?: number) {
+        const width = (data[0]?.length ?? 0) * horizontalScale
+
+        if (width > this.printWidth) {
+            throw new GraphicsError(`image is ${width} dots wide, but the print area is ${this.printWidth}`)
+        }
+
+        const command = imageCommandFor(this.profile, this.imageCommand)
+
+        return this.raw(printImage(data, command, { verticalScale, horizontalScale, bandHeight }))
+    }
+
+    /** GS ( L (Function 49) */
+    graphicsDotDensity(density: GraphicsDotDensity = 180) {
+        this.assertGraphics()
+
+        return this.raw(setGraphicsDotDensity(density))
+    }
+
+    /** GS ( L (Function 69 / 85) -- prints a logo stored with storeGraphics */
+    storedGraphics(key: string, memory: GraphicsMemory = 'nv', horizontalScale: 1 | 2 = 1, verticalScale: 1 | 2 = 1) {
+        this.assertGraphics()
+
+        return this.raw(printStoredGraphics(key, memory, horizontalScale, verticalScale))
+    }
+
+    /** ESC L */
+    pageMode() {
+        assertSupported(this.profile, this.profile.pageMode, 'Page mode')
+
+        return this.raw(selectPageMode())
+    }
+
+    /** Prints a page laid out on a PageCanvas, and returns to Standard mode */
+    page(canvas: PageCanvas) {
+        assertSupported(this.profile, this.profile.pageMode, 'Page mode')
+
+        return this.raw(canvas.toCommands())
+    }
+
+    /** ESC S */
+    standardMode() {
+        return this.raw(selectStandardMode())
+    }
+
+    /** ESC T */
+    printDirection(n: number) {
+        return this.raw(selectPrintDirectionInPageMode(n))
+    }
+
+    /** ESC W */
+    pageArea(originX: number, originY: number, width: number, height: number) {
+        return this.raw(setPrintAreaInPageMode(originX, originY, width, height))
+    }
+
+    /** GS $ */
+    verticalPosition(n: number) {
+        return this.raw(setAbsoluteVerticalPrintPositionInPageMode(n))
+    }
+
+    /** GS \ */
+    relativeVerticalPosition(d: number) {
+        return this.raw(setRelativeVerticalPrintPositionInPageMode(d))
+    }
+
+    /** ESC FF */
+    printPage() {
+        return this.raw(printDataInPageMode())
+    }
+
+    /** FF (in Page mode) */
+    printPageAndReturnToStandardMode() {
+        return this.raw(printAndReturnToStandardModeInPageMode())
+    }
+
+    /** CAN */
+    cancelPage() {
+        return this.raw(cancelPrintDataInPageMode())
+    }
+
+    /** DLE EOT -- the printer answers this as soon as it is received, even mid-job */
+    realTimeStatus(n: number, a?: number) {
+        return this.raw(transmitRealTimeStatus(n, a))
+    }
+
+    /** DLE DC4 (fn = 1) -- kicks the cash drawer for t × 100 ms, even while the printer is offline */
+    realTimePulse(pin: DrawerPin = 2, t: number = 1) {
+        return this.raw(generatePulseInRealTime(pin, t))
+    }
+
+    /** DLE DC4 (fn = 3) -- models without a buzzer ignore it */
+    realTimeBuzzer(pattern: number = 1, repeat: number = 1, onTime: number = 1, offTime: number = 1) {
+        return this.raw(soundBuzzerInRealTime(pattern, repeat, onTime, offTime))
+    }
+
+    /** DLE DC4 (fn = 8) -- drops whatever the printer hasn't printed yet. Follow with ESC @ to reset the settings too */
+    clearBuffers() {
+        return this.raw(clearBuffers())
+    }
+
+    /** GS a */
+    automaticStatusBack(options?: AutomaticStatusBackOptions) {
+        return this.raw(setAutomaticStatusBack(options))
+    }
+
+    toArray() {
+        return [...this.data]
+    }
+
+    toUint8Array() {
+        return Uint8Array.from(this.data)
+    }
+
+    toBuffer() {
+        return Buffer.from(this.data)
+    }
+
+    private assertFont(font: Font) {
+        assertSupported(this.profile, this.profile.fonts[font] != undefined, `Font ${font}`)
+    }
+
+    /** Only for settings away from the defaults, as resetting them is harmless on single-byte models */
+    private assertKanji() {
+        assertSupported(this.profile, this.profile.multiByteEncodings.length > 0, 'Kanji characters')
+    }
+
+    private assertSymbology(symbology: Symbology) {
+        assertSupported(this.profile, this.profile.symbologies.includes(symbology), `${symbology} barcodes`)
+    }
+
+    private assertGraphics() {
+        assertSupported(this.profile, this.profile.imageCommands.includes('graphics'), 'GS ( L graphics')
+    }
+}
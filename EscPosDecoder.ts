@@ -0,0 +1,977 @@
+import {
+    fontMap,
+    internationalCharacterSetMap,
+    characterCodeTableMap,
+    kanjiCodeSystemMap,
+    printPositionOfHriCharactersMap,
+} from './EscPosEncoder.js'
+
+import type {
+    AutomaticStatusBackOptions,
+    CharacterCodeTable,
+    DrawerPin,
+    Font,
+    InternationalCharacterSet,
+    Justification,
+    KanjiCodeSystem,
+    PrintPositionOfHriCharacters,
+} from './EscPosEncoder.js'
+import type { GraphicsMemory } from './graphics.js'
+
+const EOT = 0x04
+const HT = 0x09
+const LF = 0x0a
+const FF = 0x0c
+const DLE = 0x10
+const DC4 = 0x14
+const CAN = 0x18
+const ESC = 0x1b
+const FS = 0x1c
+const GS = 0x1d
+
+type NoArgs = Record<string, never>
+
+/** GS k, under the name of each barcode system's function in barcodes.ts */
+type BarcodeFunction = 'printBarcode'
+    | 'printBarcodeUpcA'
+    | 'printBarcodeUpcE'
+    | 'printBarcodeEan13'
+    | 'printBarcodeEan8'
+    | 'printBarcodeCode39'
+    | 'printBarcodeItf'
+    | 'printBarcodeCodabar'
+    | 'printBarcodeCode93'
+    | 'printBarcodeCode128'
+
+/** GS ( k, under the name of each `cn fn` function in barcodes.ts */
+type TwoDimensionalCodeFunction = 'twoDimensionalCode'
+    | 'selectQrCodeModel'
+    | 'setQrCodeModuleSize'
+    | 'selectQrCodeErrorCorrectionLevel'
+    | 'storeQrCodeData'
+    | 'printQrCodeSymbolData'
+    | 'setPdf417Columns'
+    | 'setPdf417Rows'
+    | 'setPdf417ModuleWidth'
+    | 'setPdf417RowHeight'
+    | 'setPdf417ErrorCorrection'
+    | 'selectPdf417Options'
+    | 'storePdf417Data'
+    | 'printPdf417SymbolData'
+    | 'selectDataMatrixType'
+    | 'setDataMatrixModuleSize'
+    | 'storeDataMatrixData'
+    | 'printDataMatrixSymbolData'
+    | 'setGs1DataBarModuleWidth'
+    | 'storeGs1DataBarData'
+    | 'printGs1DataBarSymbolData'
+
+/** GS ( L / GS 8 L functions in graphics.ts whose parameters aren't unpacked */
+type GraphicsFunction = 'graphics'
+    | 'requestNvGraphicsCapacity'
+    | 'setGraphicsDotDensity'
+    | 'printGraphicsData'
+    | 'requestRemainingGraphicsCapacity'
+    | 'requestGraphicsKeyCodes'
+    | 'deleteAllGraphics'
+
+type GraphicsArgs = { fn: number, parameters: number[] }
+
+type GraphicsDataArgs = {
+    fn: number
+    tone: 'monochrome' | 'multiple'
+    horizontalScale: number
+    verticalScale: number
+    color: number
+    width: number
+    height: number
+    data: number[][]
+}
+
+type StoredGraphicsArgs = { fn: number, memory: GraphicsMemory, key: string, parameters: number[] }
+
+/**
+ * The arguments of each command, by name. Values the encoder has no name for
+ * are passed through as numbers.
+ */
+export type CommandArgs = {
+    horizontalTab: NoArgs
+    printAndLineFeed: NoArgs
+    printAndReturnToStandardModeInPageMode: NoArgs
+    cancelPrintDataInPageMode: NoArgs
+    generatePulseInRealTime: { pin: DrawerPin, t: number }
+    soundBuzzerInRealTime: { pattern: number, repeat: number, onTime: number, offTime: number }
+    clearBuffers: NoArgs
+    transmitRealTimeStatus: { n: number, a?: number }
+    printDataInPageMode: NoArgs
+    setRightSideCharacterSpacing: { n: number }
+    selectPrintModes: { font: Font | number, emphasised: boolean, doubleHeight: boolean, doubleWidth: boolean, underline: boolean }
+    setAbsolutePrintPosition: { value: number }
+    selectUserDefinedCharacterSet: { enable: boolean }
+    defineUserDefinedCharacterSet: { verticalBytes: number, characterCodeRangeStart: number, characterCodeRangeEnd: number, data: number[][][] }
+    selectBitImageMode: { verticalDensity: 8 | 24, horizontalDensity: 'single' | 'double', data: number[] }
+    underline: { enable: false } | { enable: true, thickness: number }
+    selectDefaultLineSpacing: NoArgs
+    setLineSpacing: { units: number }
+    cancelUserDefinedCharacters: { n: number }
+    initialise: NoArgs
+    setHorizontalTabPositions: { tabStops: number[] }
+    bold: { enable: boolean }
+    doubleStrike: { enable: boolean }
+    printAndFeedPaper: { n: number }
+    selectPageMode: NoArgs
+    selectFont: { font: Font | number }
+    selectInternationalCharacterSet: { characterSet: InternationalCharacterSet | number }
+    selectStandardMode: NoArgs
+    selectPrintDirectionInPageMode: { n: number }
+    setPrintAreaInPageMode: { originX: number, originY: number, width: number, height: number }
+    setRelativePrintPosition: { d: number }
+    selectJustification: { justification: Justification | number }
+    printAndFeedLines: { n: number }
+    generatePulse: { pin: DrawerPin, t1: number, t2: number }
+    selectCharacterCodeTable: { table: CharacterCodeTable | number }
+    setUpsideDown: { enable: boolean }
+    selectKanjiPrintModes: { doubleWidth: boolean, doubleHeight: boolean, underline: boolean }
+    selectKanjiCharacterMode: NoArgs
+    cancelKanjiCharacterMode: NoArgs
+    selectKanjiCharacterCodeSystem: { system: KanjiCodeSystem | number }
+    setKanjiCharacterSpacing: { left: number, right: number }
+    selectCharacterSize: { width: number, height: number }
+    setAbsoluteVerticalPrintPositionInPageMode: { n: number }
+    inverse: { enable: boolean }
+    selectPrintPositionOfBarcodeHriCharacters: { position: PrintPositionOfHriCharacters | number }
+    setLeftMargin: { n: number }
+    setHorizontalAndVerticalMotionUnits: { x: number, y: number }
+    cut: { mode: 'full' | 'partial', feedVertical: number }
+    setPrintAreaWidth: { width: number }
+    setRelativeVerticalPrintPositionInPageMode: { d: number }
+    setAutomaticStatusBack: { options: Required<AutomaticStatusBackOptions> }
+    setSmoothing: { enable: boolean }
+    selectFontForBarcodeHriCharacters: { font: Font | number }
+    setBarcodeHeight: { n: number }
+    setBarcodeWidth: { n: number }
+    printRasterBitImage: { verticalScale: 1 | 2, horizontalScale: 1 | 2, width: number, height: number, data: number[][] }
+    deleteGraphics: StoredGraphicsArgs
+    printStoredGraphics: StoredGraphicsArgs
+    defineGraphics: Omit<GraphicsDataArgs, 'horizontalScale' | 'verticalScale'> & { memory: GraphicsMemory, key: string }
+    storeRasterGraphicsData: GraphicsDataArgs
+    storeColumnGraphicsData: GraphicsDataArgs
+}
+    & Record<BarcodeFunction, { system: number, data: string }>
+    & Record<TwoDimensionalCodeFunction, { cn: number, fn: number, parameters: number[], data?: string }>
+    & Record<GraphicsFunction, GraphicsArgs>
+
+export type CommandName = keyof CommandArgs
+
+/** A name with the matching args, one member per command */
+type ParsedCommand = {
+    [Name in CommandName]: { name: Name, args: CommandArgs[Name] }
+}[CommandName]
+
+/** Narrowing on `name` gives the shape of `args` */
+export type DecodedCommand = ParsedCommand & {
+    type: 'command'
+    /** Human readable form of the command bytes, as used in the Epson reference, e.g. `ESC a` */
+    cmd: string
+    offset: number
+    length: number
+}
+
+export type DecodedText = {
+    type: 'text'
+    text: string
+    bytes: number[]
+    offset: number
+    length: number
+}
+
+export type DecodeError = {
+    type: 'unknown' | 'truncated'
+    /** Set for truncated sequences, where the command was recognised but its parameters are cut off */
+    cmd?: string
+    bytes: number[]
+    offset: number
+    length: number
+}
+
+export type DecodedItem = DecodedCommand | DecodedText | DecodeError
+
+class TruncatedError extends Error {}
+class UnknownCommandError extends Error {}
+
+/**
+ * Reads parameters from a byte stream, throwing a TruncatedError if it runs out
+ */
+class Reader {
+    position: number
+
+    constructor(private data: Uint8Array, position: number) {
+        this.position = position
+    }
+
+    byte() {
+        const value = this.data[this.position]
+        if (value == undefined) throw new TruncatedError()
+
+        this.position++
+        return value
+    }
+
+    /** Reads a 2-byte little endian number (nL nH) */
+    word() {
+        const low = this.byte()
+        const high = this.byte()
+
+        return low + high * 256
+    }
+
+    /** Reads a 2-byte little endian two's complement number */
+    signedWord() {
+        const value = this.word()
+
+        return value >= 32768 ? value - 65536 : value
+    }
+
+    bytes(n: number) {
+        if (this.position + n > this.data.length) throw new TruncatedError()
+
+        const value = Array.from(this.data.subarray(this.position, this.position + n))
+        this.position += n
+
+        return value
+    }
+}
+
+/** `name` is the function in EscPosEncoder.ts (or barcodes.ts, graphics.ts) that emits the command */
+type CommandSpec = {
+    [Name in CommandName]: {
+        cmd: string
+        name: Name
+        parse: (reader: Reader) => CommandArgs[Name]
+    }
+}[CommandName]
+
+/** Commands that share a prefix. GS ( and GS 8 take one more byte than the rest to pick the command */
+type CommandTable = {
+    prefix: string
+    commands: Map<number, CommandSpec | CommandTable>
+}
+
+function invert<T extends string>(map: Record<T, number>) {
+    const inverted = new Map<number, T>()
+
+    for (const [key, value] of Object.entries(map) as [T, number][]) {
+        inverted.set(value, key)
+    }
+
+    return inverted
+}
+
+const fonts = invert(fontMap)
+const internationalCharacterSets = invert(internationalCharacterSetMap)
+const characterCodeTables = invert(characterCodeTableMap)
+const kanjiCodeSystems = invert(kanjiCodeSystemMap)
+const hriPositions = invert(printPositionOfHriCharactersMap)
+
+/** Several commands accept both 0/1 and the ASCII digits '0'/'1' */
+function digit(n: number) {
+    return n >= 48 && n <= 57 ? n - 48 : n
+}
+
+function flag(n: number) {
+    return (n & 1) == 1
+}
+
+function font(n: number): Font | number {
+    return fonts.get(digit(n)) ?? n
+}
+
+/** Unpacks columns of bytes (MSB at the top) into rows of 0/1 dots */
+function unpackColumns(bytes: number[], width: number, height: number) {
+    const bytesPerColumn = Math.ceil(height / 8)
+    const rows: number[][] = []
+
+    for (let y = 0; y < height; y++) {
+        const row: number[] = []
+
+        for (let x = 0; x < width; x++) {
+            const byte = bytes[x * bytesPerColumn + (y >> 3)] ?? 0
+
+            row.push((byte >> (7 - (y & 7))) & 1)
+        }
+
+        rows.push(row)
+    }
+
+    return rows
+}
+
+/** Unpacks rows of bytes (MSB first) into rows of 0/1 dots */
+function unpackBits(bytes: number[], widthInBytes: number, height: number) {
+    const rows: number[][] = []
+
+    for (let y = 0; y < height; y++) {
+        const row: number[] = []
+
+        for (let x = 0; x < widthInBytes; x++) {
+            const byte = bytes[y * widthInBytes + x] ?? 0
+
+            for (let bit = 7; bit >= 0; bit--) {
+                row.push((byte >> bit) & 1)
+            }
+        }
+
+        rows.push(row)
+    }
+
+    return rows
+}
+
+const singleByteCommands = new Map<number, CommandSpec>([
+    [HT, { cmd: 'HT', name: 'horizontalTab', parse: () => ({}) }],
+    [LF, { cmd: 'LF', name: 'printAndLineFeed', parse: () => ({}) }],
+    [FF, { cmd: 'FF', name: 'printAndReturnToStandardModeInPageMode', parse: () => ({}) }],
+    [CAN, { cmd: 'CAN', name: 'cancelPrintDataInPageMode', parse: () => ({}) }],
+])
+
+const dleDc4Commands = new Map<number, CommandSpec>([
+    [1, {
+        cmd: 'DLE DC4',
+        name: 'generatePulseInRealTime',
+        parse: r => ({ pin: r.byte() == 1 ? 5 : 2, t: r.byte() }),
+    }],
+    [3, {
+        cmd: 'DLE DC4',
+        name: 'soundBuzzerInRealTime',
+        parse: r => {
+            const pattern = r.byte()
+            r.byte() // n, always 1
+
+            return { pattern, repeat: r.byte(), onTime: r.byte(), offTime: r.byte() }
+        },
+    }],
+    [8, {
+        cmd: 'DLE DC4',
+        name: 'clearBuffers',
+        parse: r => {
+            r.bytes(7)
+            return {}
+        },
+    }],
+])
+
+const dleCommands = new Map<number, CommandSpec | CommandTable>([
+    [EOT, {
+        cmd: 'DLE EOT',
+        name: 'transmitRealTimeStatus',
+        parse: r => {
+            const n = r.byte()
+
+            return n == 7 || n == 8 || n == 18
+                ? { n, a: r.byte() }
+                : { n }
+        },
+    }],
+    [DC4, { prefix: 'DLE DC4', commands: dleDc4Commands }],
+])
+
+const escCommands = new Map<number, CommandSpec>([
+    [0x0c, { cmd: 'ESC FF', name: 'printDataInPageMode', parse: () => ({}) }],
+    [0x20, { cmd: 'ESC SP', name: 'setRightSideCharacterSpacing', parse: r => ({ n: r.byte() }) }],
+    [0x21, {
+        cmd: 'ESC !',
+        name: 'selectPrintModes',
+        parse: r => {
+            const n = r.byte()
+
+            return {
+                font: font(n & 1),
+                emphasised: (n & 0x08) != 0,
+                doubleHeight: (n & 0x10) != 0,
+                doubleWidth: (n & 0x20) != 0,
+                underline: (n & 0x80) != 0,
+            }
+        },
+    }],
+    [0x24, { cmd: 'ESC $', name: 'setAbsolutePrintPosition', parse: r => ({ value: r.word() }) }],
+    [0x25, { cmd: 'ESC %', name: 'selectUserDefinedCharacterSet', parse: r => ({ enable: flag(r.byte()) }) }],
+    [0x26, {
+        cmd: 'ESC &',
+        name: 'defineUserDefinedCharacterSet',
+        parse: r => {
+            const verticalBytes = r.byte()
+            const characterCodeRangeStart = r.byte()
+            const characterCodeRangeEnd = r.byte()
+
+            const data: number[][][] = []
+
+            for (let c = characterCodeRangeStart; c <= characterCodeRangeEnd; c++) {
+                const width = r.byte()
+                const columns = r.bytes(width * verticalBytes)
+
+                const character: number[][] = []
+                for (let y = 0; y < verticalBytes; y++) {
+                    const line: number[] = []
+                    for (let x = 0; x < width; x++) {
+                        line.push(columns[x * verticalBytes + y] ?? 0)
+                    }
+                    character.push(line)
+                }
+
+                data.push(character)
+            }
+
+            return { verticalBytes, characterCodeRangeStart, characterCodeRangeEnd, data }
+        },
+    }],
+    [0x2a, {
+        cmd: 'ESC *',
+        name: 'selectBitImageMode',
+        parse: r => {
+            const m = r.byte()
+            const columns = r.word()
+
+            const verticalDensity = m >= 32 ? 24 : 8
+            const horizontalDensity = (m & 1) == 1 ? 'double' : 'single'
+
+            return {
+                verticalDensity,
+                horizontalDensity,
+                data: r.bytes(columns * (verticalDensity == 8 ? 1 : 3)),
+            }
+        },
+    }],
+    [0x2d, {
+        cmd: 'ESC -',
+        name: 'underline',
+        parse: r => {
+            const n = digit(r.byte())
+
+            return n == 0
+                ? { enable: false }
+                : { enable: true, thickness: n }
+        },
+    }],
+    [0x32, { cmd: 'ESC 2', name: 'selectDefaultLineSpacing', parse: () => ({}) }],
+    [0x33, { cmd: 'ESC 3', name: 'setLineSpacing', parse: r => ({ units: r.byte() }) }],
+    [0x3f, { cmd: 'ESC ?', name: 'cancelUserDefinedCharacters', parse: r => ({ n: r.byte() }) }],
+    [0x40, { cmd: 'ESC @', name: 'initialise', parse: () => ({}) }],
+    [0x44, {
+        cmd: 'ESC D',
+        name: 'setHorizontalTabPositions',
+        parse: r => {
+            const tabStops: number[] = []
+
+            for (let n = r.byte(); n != 0; n = r.byte()) {
+                tabStops.push(n)
+            }
+
+            return { tabStops }
+        },
+    }],
+    [0x45, { cmd: 'ESC E', name: 'bold', parse: r => ({ enable: flag(r.byte()) }) }],
+    [0x47, { cmd: 'ESC G', name: 'doubleStrike', parse: r => ({ enable: flag(r.byte()) }) }],
+    [0x4a, { cmd: 'ESC J', name: 'printAndFeedPaper', parse: r => ({ n: r.byte() }) }],
+    [0x4c, { cmd: 'ESC L', name: 'selectPageMode', parse: () => ({}) }],
+    [0x4d, { cmd: 'ESC M', name: 'selectFont', parse: r => ({ font: font(r.byte()) }) }],
+    [0x52, {
+        cmd: 'ESC R',
+        name: 'selectInternationalCharacterSet',
+        parse: r => {
+            const n = r.byte()
+
+            return { characterSet: internationalCharacterSets.get(n) ?? n }
+        },
+    }],
+    [0x53, { cmd: 'ESC S', name: 'selectStandardMode', parse: () => ({}) }],
+    [0x54, { cmd: 'ESC T', name: 'selectPrintDirectionInPageMode', parse: r => ({ n: digit(r.byte()) }) }],
+    [0x57, {
+        cmd: 'ESC W',
+        name: 'setPrintAreaInPageMode',
+        parse: r => ({
+            originX: r.word(),
+            originY: r.word(),
+            width: r.word(),
+            height: r.word(),
+        }),
+    }],
+    [0x5c, { cmd: 'ESC \\', name: 'setRelativePrintPosition', parse: r => ({ d: r.signedWord() }) }],
+    [0x61, {
+        cmd: 'ESC a',
+        name: 'selectJustification',
+        parse: r => {
+            const n = r.byte()
+            const justifications: Justification[] = ['left', 'centered', 'right']
+
+            return { justification: justifications[digit(n)] ?? n }
+        },
+    }],
+    [0x64, { cmd: 'ESC d', name: 'printAndFeedLines', parse: r => ({ n: r.byte() }) }],
+    [0x70, {
+        cmd: 'ESC p',
+        name: 'generatePulse',
+        parse: r => ({ pin: digit(r.byte()) == 1 ? 5 : 2, t1: r.byte(), t2: r.byte() }),
+    }],
+    [0x74, {
+        cmd: 'ESC t',
+        name: 'selectCharacterCodeTable',
+        parse: r => {
+            const n = r.byte()
+
+            return { table: characterCodeTables.get(n) ?? n }
+        },
+    }],
+    [0x7b, { cmd: 'ESC {', name: 'setUpsideDown', parse: r => ({ enable: flag(r.byte()) }) }],
+])
+
+const fsCommands = new Map<number, CommandSpec>([
+    [0x21, {
+        cmd: 'FS !',
+        name: 'selectKanjiPrintModes',
+        parse: r => {
+            const n = r.byte()
+
+            return {
+                doubleWidth: (n & 0x04) != 0,
+                doubleHeight: (n & 0x08) != 0,
+                underline: (n & 0x80) != 0,
+            }
+        },
+    }],
+    [0x26, { cmd: 'FS &', name: 'selectKanjiCharacterMode', parse: () => ({}) }],
+    [0x2e, { cmd: 'FS .', name: 'cancelKanjiCharacterMode', parse: () => ({}) }],
+    [0x43, {
+        cmd: 'FS C',
+        name: 'selectKanjiCharacterCodeSystem',
+        parse: r => {
+            const n = digit(r.byte())
+
+            return { system: kanjiCodeSystems.get(n) ?? n }
+        },
+    }],
+    [0x53, { cmd: 'FS S', name: 'setKanjiCharacterSpacing', parse: r => ({ left: r.byte(), right: r.byte() }) }],
+])
+
+/** GS ( L and GS 8 L, which only differ in the size of the length */
+function parseGraphics(r: Reader, length: number) {
+    if (length < 2) throw new UnknownCommandError()
+
+    r.byte() // m
+    const fn = r.byte()
+
+    return { fn, parameters: r.bytes(length - 2) }
+}
+
+const gsParenthesisCommands = new Map<number, CommandSpec>([
+    [0x4c, { cmd: 'GS ( L', name: 'graphics', parse: r => parseGraphics(r, r.word()) }],
+    [0x6b, {
+        cmd: 'GS ( k',
+        name: 'twoDimensionalCode',
+        parse: r => {
+            const length = r.word()
+            if (length < 2) throw new UnknownCommandError()
+
+            const cn = r.byte()
+            const fn = r.byte()
+            const parameters = r.bytes(length - 2)
+
+            if (fn != 80) return { cn, fn, parameters }
+
+            // the GS1 DataBar type comes between m and the data
+            const data = parameters.slice(cn == 51 ? 2 : 1)
+
+            return { cn, fn, parameters, data: new TextDecoder().decode(Uint8Array.from(data)) }
+        },
+    }],
+])
+
+const gs8Commands = new Map<number, CommandSpec>([
+    [0x4c, { cmd: 'GS 8 L', name: 'graphics', parse: r => parseGraphics(r, r.word() + r.word() * 65536) }],
+])
+
+const gsCommands = new Map<number, CommandSpec | CommandTable>([
+    [0x21, {
+        cmd: 'GS !',
+        name: 'selectCharacterSize',
+        parse: r => {
+            const n = r.byte()
+
+            return {
+                width: (n >> 4) + 1,
+                height: (n & 0x0f) + 1,
+            }
+        },
+    }],
+    [0x24, { cmd: 'GS $', name: 'setAbsoluteVerticalPrintPositionInPageMode', parse: r => ({ n: r.word() }) }],
+    [0x28, { prefix: 'GS (', commands: gsParenthesisCommands }],
+    [0x38, { prefix: 'GS 8', commands: gs8Commands }],
+    [0x42, { cmd: 'GS B', name: 'inverse', parse: r => ({ enable: flag(r.byte()) }) }],
+    [0x48, {
+        cmd: 'GS H',
+        name: 'selectPrintPositionOfBarcodeHriCharacters',
+        parse: r => {
+            const n = r.byte()
+
+            return { position: hriPositions.get(digit(n)) ?? n }
+        },
+    }],
+    [0x4c, { cmd: 'GS L', name: 'setLeftMargin', parse: r => ({ n: r.word() }) }],
+    [0x50, { cmd: 'GS P', name: 'setHorizontalAndVerticalMotionUnits', parse: r => ({ x: r.byte(), y: r.byte() }) }],
+    [0x56, {
+        cmd: 'GS V',
+        name: 'cut',
+        parse: r => {
+            const m = r.byte()
+
+            if (m == 65 || m == 66) {
+                return {
+                    mode: m == 65 ? 'full' : 'partial',
+                    feedVertical: r.byte(),
+                }
+            }
+
+            return {
+                mode: digit(m) == 0 ? 'full' : 'partial',
+                feedVertical: 0,
+            }
+        },
+    }],
+    [0x57, { cmd: 'GS W', name: 'setPrintAreaWidth', parse: r => ({ width: r.word() }) }],
+    [0x5c, { cmd: 'GS \\', name: 'setRelativeVerticalPrintPositionInPageMode', parse: r => ({ d: r.signedWord() }) }],
+    [0x61, {
+        cmd: 'GS a',
+        name: 'setAutomaticStatusBack',
+        parse: r => {
+            const n = r.byte()
+
+            return {
+                options: {
+                    drawer: flag(n),
+                    onlineOffline: flag(n >> 1),
+                    error: flag(n >> 2),
+                    rollPaperSensor: flag(n >> 3),
+                    panelSwitch: flag(n >> 6),
+                },
+            }
+        },
+    }],
+    [0x62, { cmd: 'GS b', name: 'setSmoothing', parse: r => ({ enable: flag(r.byte()) }) }],
+    [0x66, { cmd: 'GS f', name: 'selectFontForBarcodeHriCharacters', parse: r => ({ font: font(r.byte()) }) }],
+    [0x68, { cmd: 'GS h', name: 'setBarcodeHeight', parse: r => ({ n: r.byte() }) }],
+    [0x6b, {
+        cmd: 'GS k',
+        name: 'printBarcode',
+        parse: r => {
+            const m = r.byte()
+
+            const codes: number[] = []
+
+            if (m <= 6) {
+                // function A: data is terminated by NUL
+                for (let n = r.byte(); n != 0; n = r.byte()) {
+                    codes.push(n)
+                }
+            } else {
+                codes.push(...r.bytes(r.byte()))
+            }
+
+            return {
+                system: m,
+                data: String.fromCharCode(...codes),
+            }
+        },
+    }],
+    [0x76, {
+        cmd: 'GS v 0',
+        name: 'printRasterBitImage',
+        parse: r => {
+            if (r.byte() != 0x30) throw new UnknownCommandError()
+
+            const m = digit(r.byte())
+            const widthInBytes = r.word()
+            const height = r.word()
+
+            const bytes = r.bytes(widthInBytes * height)
+
+            return {
+                verticalScale: (m & 2) ? 2 : 1,
+                horizontalScale: (m & 1) ? 2 : 1,
+                width: widthInBytes * 8,
+                height,
+                data: unpackBits(bytes, widthInBytes, height),
+            }
+        },
+    }],
+    [0x77, { cmd: 'GS w', name: 'setBarcodeWidth', parse: r => ({ n: r.byte() }) }],
+])
+
+const prefixedCommands = new Map<number, CommandTable>([
+    [DLE, { prefix: 'DLE', commands: dleCommands }],
+    [ESC, { prefix: 'ESC', commands: escCommands }],
+    [GS, { prefix: 'GS', commands: gsCommands }],
+    [FS, { prefix: 'FS', commands: fsCommands }],
+])
+
+/** Names for the GS k barcode systems that have their own function in barcodes.ts */
+const barcodeFunctions = new Map<number, BarcodeFunction>([
+    [65, 'printBarcodeUpcA'],
+    [66, 'printBarcodeUpcE'],
+    [67, 'printBarcodeEan13'],
+    [68, 'printBarcodeEan8'],
+    [69, 'printBarcodeCode39'],
+    [70, 'printBarcodeItf'],
+    [71, 'printBarcodeCodabar'],
+    [72, 'printBarcodeCode93'],
+    [73, 'printBarcodeCode128'],
+])
+
+/**
+ * Follows the bytes after a prefix through the command tables to the command,
+ * returning where its parameters start
+ */
+function findCommand(table: CommandTable, data: Uint8Array, position: number) {
+    let entry: CommandSpec | CommandTable = table
+
+    while ('commands' in entry) {
+        const next = data[position]
+        if (next == undefined) return { type: 'truncated', prefix: entry.prefix } as const
+
+        const found: CommandSpec | CommandTable | undefined = entry.commands.get(next)
+        position++
+
+        if (!found) return { type: 'unknown', end: position } as const
+
+        entry = found
+    }
+
+    return { type: 'found', spec: entry, end: position } as const
+}
+
+/** Names for the GS ( L / GS 8 L functions in graphics.ts whose parameters are passed through, by fn */
+const graphicsFunctions = new Map<number, GraphicsFunction>([
+    [48, 'requestNvGraphicsCapacity'],
+    [49, 'setGraphicsDotDensity'],
+    [50, 'printGraphicsData'],
+    [51, 'requestRemainingGraphicsCapacity'],
+    [52, 'requestRemainingGraphicsCapacity'],
+    [64, 'requestGraphicsKeyCodes'],
+    [65, 'deleteAllGraphics'],
+    [80, 'requestGraphicsKeyCodes'],
+    [81, 'deleteAllGraphics'],
+])
+
+/** Names for the GS ( k functions in barcodes.ts, by `cn fn` */
+const twoDimensionalCodeFunctions = new Map<string, TwoDimensionalCodeFunction>([
+    ['49 65', 'selectQrCodeModel'],
+    ['49 67', 'setQrCodeModuleSize'],
+    ['49 69', 'selectQrCodeErrorCorrectionLevel'],
+    ['49 80', 'storeQrCodeData'],
+    ['49 81', 'printQrCodeSymbolData'],
+    ['48 65', 'setPdf417Columns'],
+    ['48 66', 'setPdf417Rows'],
+    ['48 67', 'setPdf417ModuleWidth'],
+    ['48 68', 'setPdf417RowHeight'],
+    ['48 69', 'setPdf417ErrorCorrection'],
+    ['48 70', 'selectPdf417Options'],
+    ['48 80', 'storePdf417Data'],
+    ['48 81', 'printPdf417SymbolData'],
+    ['54 66', 'selectDataMatrixType'],
+    ['54 67', 'setDataMatrixModuleSize'],
+    ['54 80', 'storeDataMatrixData'],
+    ['54 81', 'printDataMatrixSymbolData'],
+    ['51 67', 'setGs1DataBarModuleWidth'],
+    ['51 80', 'storeGs1DataBarData'],
+    ['51 81', 'printGs1DataBarSymbolData'],
+])
+
+/**
+ * Names a GS ( L / GS 8 L function. The key codes of the stored graphics
+ * functions are read, and the bitmaps of Functions 67, 83, 112 and 113 are
+ * unpacked into rows of dots.
+ */
+function graphicsCommand(args: GraphicsArgs): ParsedCommand {
+    const { fn, parameters } = args
+    const memory = fn < 80 ? 'nv' : 'download'
+
+    if ([66, 69, 82, 85].includes(fn) && parameters.length >= 2) {
+        return {
+            name: fn == 66 || fn == 82 ? 'deleteGraphics' : 'printStoredGraphics',
+            args: { fn, memory, key: String.fromCharCode(parameters[0]!, parameters[1]!), parameters },
+        }
+    }
+
+    if ((fn == 67 || fn == 83) && parameters.length >= 9) {
+        const [a, kc1, kc2, , xL, xH, yL, yH, c] = parameters as number[]
+        const width = xL! + xH! * 256
+        const height = yL! + yH! * 256
+
+        return {
+            name: 'defineGraphics',
+            args: {
+                fn,
+                memory,
+                key: String.fromCharCode(kc1!, kc2!),
+                tone: digit(a!) == 4 ? 'multiple' : 'monochrome',
+                color: digit(c!),
+                width,
+                height,
+                // only the first color when there are several
+                data: unpackBits(parameters.slice(9), Math.ceil(width / 8), height),
+            },
+        }
+    }
+
+    if ((fn == 112 || fn == 113) && parameters.length >= 8) {
+        const [a, horizontalScale, verticalScale, c, xL, xH, yL, yH] = parameters as [number, number, number, number, number, number, number, number]
+        const width = xL + xH * 256
+        const height = yL + yH * 256
+        const bytes = parameters.slice(8)
+
+        return {
+            name: fn == 112 ? 'storeRasterGraphicsData' : 'storeColumnGraphicsData',
+            args: {
+                fn,
+                tone: digit(a) == 4 ? 'multiple' : 'monochrome',
+                horizontalScale: digit(horizontalScale),
+                verticalScale: digit(verticalScale),
+                color: digit(c),
+                width,
+                height,
+                data: fn == 112
+                    ? unpackBits(bytes, Math.ceil(width / 8), height)
+                    : unpackColumns(bytes, width, height),
+            },
+        }
+    }
+
+    return { name: graphicsFunctions.get(fn) ?? 'graphics', args }
+}
+
+/**
+ * Runs a command's parser. TypeScript can't follow that a spec's name and the
+ * result of its parse belong together, which the spec type already checks.
+ */
+function parseCommand(spec: CommandSpec, reader: Reader) {
+    return { name: spec.name, args: spec.parse(reader) } as ParsedCommand
+}
+
+/** Renames the commands that several functions emit after the function that did */
+function functionCommand(command: ParsedCommand): ParsedCommand {
+    switch (command.name) {
+        case 'printBarcode':
+            return { name: barcodeFunctions.get(command.args.system) ?? command.name, args: command.args }
+        case 'twoDimensionalCode':
+            return { name: twoDimensionalCodeFunctions.get(`${command.args.cn} ${command.args.fn}`) ?? command.name, args: command.args }
+        case 'graphics':
+            return graphicsCommand(command.args)
+        default:
+            return command
+    }
+}
+
+/**
+ * Walks an ESC/POS byte stream and returns the commands and text it contains.
+ *
+ * Unknown sequences and commands that are cut off at the end of the buffer are
+ * returned as errors in the list rather than thrown, so that everything else in
+ * the buffer can still be inspected.
+ */
+export function decode(buffer: Uint8Array | number[]): DecodedItem[] {
+    const data = buffer instanceof Uint8Array ? buffer : Uint8Array.from(buffer)
+    const items: DecodedItem[] = []
+
+    let position = 0
+    let textStart = -1
+
+    const flushText = () => {
+        if (textStart < 0) return
+
+        const bytes = Array.from(data.subarray(textStart, position))
+
+        items.push({
+            type: 'text',
+            text: String.fromCharCode(...bytes),
+            bytes,
+            offset: textStart,
+            length: bytes.length,
+        })
+
+        textStart = -1
+    }
+
+    while (position < data.length) {
+        const byte = data[position]!
+
+        if (byte >= 0x20) {
+            if (textStart < 0) textStart = position
+            position++
+            continue
+        }
+
+        flushText()
+
+        const offset = position
+
+        let spec: CommandSpec | undefined
+        let reader = new Reader(data, position + 1)
+
+        const single = singleByteCommands.get(byte)
+        const prefixed = prefixedCommands.get(byte)
+
+        if (single) {
+            spec = single
+        } else if (prefixed) {
+            const found = findCommand(prefixed, data, position + 1)
+
+            if (found.type == 'truncated') {
+                items.push({ type: 'truncated', cmd: found.prefix, bytes: Array.from(data.subarray(offset)), offset, length: data.length - offset })
+                break
+            }
+
+            if (found.type == 'unknown') {
+                items.push({ type: 'unknown', bytes: Array.from(data.subarray(offset, found.end)), offset, length: found.end - offset })
+                position = found.end
+                continue
+            }
+
+            spec = found.spec
+            reader = new Reader(data, found.end)
+        } else {
+            items.push({ type: 'unknown', bytes: [byte], offset, length: 1 })
+            position++
+            continue
+        }
+
+        try {
+            const command = functionCommand(parseCommand(spec, reader))
+            const length = reader.position - offset
+
+            items.push({ type: 'command', cmd: spec.cmd, ...command, offset, length })
+
+            position = reader.position
+        } catch (e) {
+            if (e instanceof TruncatedError) {
+                items.push({
+                    type: 'truncated',
+                    cmd: spec.cmd,
+                    bytes: Array.from(data.subarray(offset)),
+                    offset,
+                    length: data.length - offset,
+                })
+
+                position = data.length
+            } else if (e instanceof UnknownCommandError) {
+                const length = reader.position - offset
+
+                items.push({ type: 'unknown', bytes: Array.from(data.subarray(offset, offset + length)), offset, length })
+                position += length
+            } else {
+                throw e
+            }
+        }
+    }
+
+    flushText()
+
+    return items
+}
@@ -1,18 +1,7 @@
 /*
-Dots per line:
-512
-
-Characters per line
-Font A: 42
-Font B: 56
-
-Character spacing 
-Font A: 0.28 mm {.01"} (2 dots)
-Font B: 0.28 mm {.01"} (2 dots)
-
-Character structure
-Font A: 12 × 24
-Font B: 9 × 17 (including 2-dot horizontal spacing)
+The command descriptions are from the TM-T88IV reference. What differs from
+model to model (dots per line, font sizes, code tables, symbologies...) is in
+profiles.ts.
 
 Line spacing (default)
 4.23 mm {1/6"}
@@ -21,13 +10,16 @@ Line spacing (default)
 import assert from 'node:assert/strict'
 
 const LF = 0x0a
+const DLE = 0x10
+const EOT = 0x04
+const DC4 = 0x14
 const ESC = 0x1b
 const FS = 0x1c
 const GS = 0x1d
 
 export type Font = 'A' | 'B'
 
-const fontMap: Record<Font, number> = {
+export const fontMap: Record<Font, number> = {
     A: 0,
     B: 1,
 }
@@ -78,32 +70,86 @@ export function printAndReturnToStandardModeInPageMode() { return [0xc] }
 // CR
 // export function printAndCarriageReturn() { return [0xd] }
 
-// DLE EOT
-// export function transmitRealTimeStatus(n, a) {
-//     const validN = [1, 2, 3, 4, 7, 8, 18]
+/**
+ * DLE EOT -- Transmits the selected status specified by n in real time.
+    - 1: Transmit printer status
+    - 2: Transmit offline cause status
+    - 3: Transmit error cause status
+    - 4: Transmit roll paper sensor status
+    - 7: Transmit ink status (a = 1, 2)
+    - 8: Transmit peeler status (a = 3)
+    - 18: Transmit interface status (a = 1, 2)
+
+    Notes:
+    - The status is transmitted whenever the data sequence of <10>H <04>H n (a) is received. This command is executed even when the printer is offline, the receive buffer is full, or there is an error status.
+    - This command is executed even when the data is in the receive buffer, so it should not be used within the data sequence of another command that consists of 2 or more bytes.
+    - Each status is 1 byte, with bits 1 and 4 fixed to 1 and bits 0 and 7 fixed to 0. See status.ts for parsing.
+    - With a serial interface, the status is transmitted even while the printer is busy.
+ */
+export function transmitRealTimeStatus(n: number, a?: number) {
+    const validN = [1, 2, 3, 4, 7, 8, 18]
 
-//     if (!validN.includes(n)) throw new Error(`unknown value n for DLE EOT (transmitRealTimeStatus): ${n}`)
+    if (!validN.includes(n)) throw new Error(`unknown value n for DLE EOT (transmitRealTimeStatus): ${n}`)
 
-//     if (n == 7) {
-//         if (a == 1 || a == 2) return [0x10, 0x4, n, a]
-//         throw new Error(`unknown value a for DLE EOT (transmitRealTimeStatus) with n == 7: ${a}`)
-//     }
+    if (n == 7) {
+        if (a == 1 || a == 2) return [DLE, EOT, n, a]
+        throw new Error(`unknown value a for DLE EOT (transmitRealTimeStatus) with n == 7: ${a}`)
+    }
 
-//     if (n == 8) {
-//         if (a == 3) return [0x10, 0x4, n, a]
-//         throw new Error(`unknown value a for DLE EOT (transmitRealTimeStatus) with n == 8: ${a}`)
-//     }
+    if (n == 8) {
+        if (a == 3) return [DLE, EOT, n, a]
+        throw new Error(`unknown value a for DLE EOT (transmitRealTimeStatus) with n == 8: ${a}`)
+    }
 
-//     if (n == 18) {
-//         if (a == 1 || a == 2) return [0x10, 0x4, n, a]
-//         throw new Error(`unknown value a for DLE EOT (transmitRealTimeStatus) with n == 18: ${a}`)
-//     }
+    if (n == 18) {
+        if (a == 1 || a == 2) return [DLE, EOT, n, a]
+        throw new Error(`unknown value a for DLE EOT (transmitRealTimeStatus) with n == 18: ${a}`)
+    }
 
-//     return [0x10, 0x4, n]
-// }
+    return [DLE, EOT, n]
+}
 
 // DLE ENQ
-// DLE DC4
+
+/** Pins of the drawer kick-out connector, one per drawer */
+export type DrawerPin = 2 | 5
+
+/**
+ * DLE DC4 (fn = 1) -- Outputs a pulse of t × 100 ms to the drawer kick-out connector pin, followed by an off time of the same length.
+    - This command is executed even when the printer is offline or the receive buffer is full, but not while a pulse from ESC p or DLE DC4 is being output.
+    - When the printer is in an error state, the pulse is not output.
+    - This command should not be used within the data sequence of another command that consists of 2 or more bytes.
+ */
+export function generatePulseInRealTime(pin: DrawerPin = 2, t: number = 1) {
+    assert(t >= 1 && t <= 8)
+
+    return [DLE, DC4, 1, pin == 2 ? 0 : 1, t]
+}
+
+/**
+ * DLE DC4 (fn = 3) -- Sounds the buzzer with a pattern, r times, on for t1 × 100 ms and off for t2 × 100 ms.
+    - Only on models with a buzzer (not the TM-T88IV). Others ignore it.
+    - Pattern 0 stops the buzzer. Patterns 1 to 7 are model dependent.
+    - This command is executed even when the printer is offline or the receive buffer is full.
+    - This command should not be used within the data sequence of another command that consists of 2 or more bytes.
+ */
+export function soundBuzzerInRealTime(pattern: number = 1, repeat: number = 1, onTime: number = 1, offTime: number = 1) {
+    assert(pattern >= 0 && pattern <= 7)
+    assert(repeat >= 0 && repeat <= 63)
+    assert(onTime >= 0 && onTime <= 50)
+    assert(offTime >= 0 && offTime <= 50)
+
+    return [DLE, DC4, 3, pattern, 1, repeat, onTime, offTime]
+}
+
+/**
+ * DLE DC4 (fn = 8) -- Clears all the data in the receive buffer and the print buffer.
+    - The fixed bytes d1...d7 = 1, 3, 20, 1, 6, 2, 8 guard against the sequence turning up by accident.
+    - This command is executed even when the printer is offline or the receive buffer is full.
+    - Commands that were cut off by the clear are dropped along with their data, but settings made before them remain. Send ESC @ afterwards to return to the power-on state.
+    - This command should not be used within the data sequence of another command that consists of 2 or more bytes.
+ */
+export function clearBuffers() { return [DLE, DC4, 8, 1, 3, 20, 1, 6, 2, 8] }
 
 /**
  * CAN -- In **Page mode**, deletes all the print data in the current print area.
@@ -137,7 +183,7 @@ export function printDataInPageMode() { return [ESC, 0x0c] }
     - It is used to change the spacing between characters.
  */
 export function setRightSideCharacterSpacing(n: number = 0) {
-    assert(n > 0 && n <= 255)
+    assert(n >= 0 && n <= 255)
     return [ESC, 0x20, n] 
 }
 
@@ -172,13 +218,13 @@ export function selectPrintModes(
 ) {
     let n = 0
 
-    n &= fontMap[font]
-    n &= (+emphasised) << 3
-    n &= (+doubleHeight) << 4
-    n &= (+doubleWidth) << 5
-    n &= (+underline) << 7
+    n |= fontMap[font]
+    n |= (+emphasised) << 3
+    n |= (+doubleHeight) << 4
+    n |= (+doubleWidth) << 5
+    n |= (+underline) << 7
 
-    return [ESC, 0x20, n] 
+    return [ESC, 0x21, n] 
 }
 
 /**
@@ -223,10 +269,10 @@ export function selectUserDefinedCharacterSet(enable: boolean = false) {
 export function defineUserDefinedCharacterSet(verticalBytes: number, characterCodeRangeStart: number, characterCodeRangeEnd: number, data: number[][][]) {
     assert(characterCodeRangeStart >= 32)
     assert(characterCodeRangeEnd <= 126)
-    assert(characterCodeRangeEnd >= characterCodeRangeEnd)
+    assert(characterCodeRangeEnd >= characterCodeRangeStart)
     assert(Array.isArray(data))
     assert(data.length <= 255)
-    assert(data.length == ((characterCodeRangeEnd - characterCodeRangeEnd) + 1))
+    assert(data.length == ((characterCodeRangeEnd - characterCodeRangeStart) + 1))
     assert(data.every(character => character.length == verticalBytes))
     assert(data.every(character => character.every(line => character[0] && line.length == character[0].length)))
 
@@ -237,7 +283,7 @@ export function defineUserDefinedCharacterSet(verticalBytes: number, characterCo
         a.push(character[0].length)
         
         for (let x = 0; x < character[0].length; x++) {
-            for (let y = 0; y < character[0].length; y++) {
+            for (let y = 0; y < character.length; y++) {
                 a.push(character?.[y]?.[x] ?? 0)
             }
         }
@@ -472,32 +518,33 @@ export type InternationalCharacterSet = 'usa'
     | 'korea'
     | 'slovenia-croatia'
     | 'china'
+
+export const internationalCharacterSetMap: Record<InternationalCharacterSet, number> = {
+    usa: 0,
+    france: 1,
+    germany: 2,
+    uk: 3,
+    'denmark-1': 4,
+    sweden: 5,
+    italy: 6,
+    'spain-1': 7,
+    japan: 8,
+    norway: 9,
+    'denmark-2': 10,
+    'spain-2': 11,
+    'latin-america': 12,
+    korea: 13,
+    'slovenia-croatia': 14,
+    china: 15,
+}
+
 /**
  * ESC R -- Select an international character set
     - The selected international character set is effective until ESC @ is executed, the printer is reset, or the power is turned off.
     - Refer to Character Code Tables for TM printers for the international characters.
 */
 export function selectInternationalCharacterSet(characterSet: InternationalCharacterSet) {
-    const map: Record<InternationalCharacterSet, number> = {
-        usa: 0,
-        france: 1,
-        germany: 2,
-        uk: 3,
-        'denmark-1': 4,
-        sweden: 5,
-        italy: 6,
-        'spain-1': 7,
-        japan: 8,
-        norway: 9,
-        'denmark-2': 10,
-        'spain-2': 11,
-        'latin-america': 12,
-        korea: 13,
-        'slovenia-croatia': 14,
-        china: 15,
-    }
-
-    return [ESC, 0x52, map[characterSet]]
+    return [ESC, 0x52, internationalCharacterSetMap[characterSet]]
 }
 
 /**
@@ -512,8 +559,8 @@ export function selectInternationalCharacterSet(characterSet: InternationalChara
         - ESC T, ESC W, GS ( P
     - Standard mode is selected as the default.
 */
-export function selectStandardMode(n: number) {
-    return [ESC, 0x53, n]
+export function selectStandardMode() {
+    return [ESC, 0x53]
 }
 
 /**
@@ -537,7 +584,7 @@ export function selectStandardMode(n: number) {
     - Settings of this command are effective until ESC @ is executed, the printer is reset, or the power is turned off.
 */
 export function selectPrintDirectionInPageMode(n: number) {
-    assert(n > 0)
+    assert(n >= 0)
     assert(n <= 3)
 
     return [ESC, 0x54, n]
@@ -589,7 +636,7 @@ export function setRelativePrintPosition(d: number) {
     assert(d >= -32768)
     assert(d <= 32767)
 
-    const normalised = d + 32768
+    const normalised = d < 0 ? 65536 + d : d
 
     return [
         ESC, 0x5C,
@@ -620,6 +667,20 @@ export function selectJustification(justification: Justification = 'left') {
 // ESC c 4
 // ESC c 5
 
+/**
+ * ESC p -- Outputs a pulse to the drawer kick-out connector pin, on for t1 × 2 ms and then off for t2 × 2 ms.
+    - The drawer pulse is usually what opens a cash drawer. 100 ms on and 200 ms off suits most drawers.
+    - If t2 < t1, the off time is t1 × 2 ms.
+    - This command is ignored while a pulse from ESC p or DLE DC4 is being output.
+    - Whether the drawer is open can be read from pin 3, with DLE EOT 1 or Automatic Status Back.
+*/
+export function generatePulse(pin: DrawerPin = 2, t1: number = 50, t2: number = 100) {
+    assert(t1 >= 0 && t1 <= 255)
+    assert(t2 >= 0 && t2 <= 255)
+
+    return [ESC, 0x70, pin == 2 ? 0 : 1, t1, t2]
+}
+
 /**
  * ESC d -- Prints the data in the print buffer and feeds n lines.
     - The amount of paper fed per line is based on the value set using the line spacing command (ESC 2 or ESC 3).
@@ -647,6 +708,20 @@ export type CharacterCodeTable = 'pc437-usa-standard-europe'
     | 'pc858-euro'
     | 'page-255'
 
+export const characterCodeTableMap: Record<CharacterCodeTable, number> = {
+    'pc437-usa-standard-europe': 0,
+    katakana: 1,
+    'pc850-multilingual': 2,
+    'pc860-portuguese': 3,
+    'pc863-canadian-french': 4,
+    'pc865-nordic': 5,
+    wpc1252: 16,
+    'pc866-cyrillic-2': 17,
+    'pc852-latin-2': 18,
+    'pc858-euro': 19,
+    'page-255': 255
+}
+
 /**
  * ESC t -- Select character code table
     - The characters of each page are the same for alphanumeric parts (ASCII code: Hex = 20h – 7Fh / Decimal = 32 – 127), and different for the escape character parts (ASCII code: Hex = 80h – FFh / Decimal = 128 – 255).
@@ -654,21 +729,7 @@ export type CharacterCodeTable = 'pc437-usa-standard-europe'
     - For characters in each code page, refer to Character Code Tables for TM printers > Single-byte Characters > Code Pages.
 */
 export function selectCharacterCodeTable(table: CharacterCodeTable) {
-    const map: Record<CharacterCodeTable, number> = {
-        'pc437-usa-standard-europe': 0,
-        katakana: 1,
-        'pc850-multilingual': 2,
-        'pc860-portuguese': 3,
-        'pc863-canadian-french': 4,
-        'pc865-nordic': 5,
-        wpc1252: 16,
-        'pc866-cyrillic-2': 17,
-        'pc852-latin-2': 18,
-        'pc858-euro': 19,
-        'page-255': 255
-    }
-
-    return [ESC, 0x74, map[table]]
+    return [ESC, 0x74, characterCodeTableMap[table]]
 }
 
 /**
@@ -686,6 +747,76 @@ export function setUpsideDown(enable: boolean = false) {
     return [ESC, 0x7b, enable ? 0x1 : 0x0]
 }
 
+/**
+ * FS ! -- Select print mode(s) for Kanji characters
+    - The settings of double-width (Bit 2), double-height (Bit 3) and underline (Bit 7) are effective for multi-byte code characters only. ESC ! sets them for 1-byte code characters.
+    - When both double-height and double-width modes are turned on, quadruple size characters are printed.
+    - The underline thickness is that specified by FS -, regardless of the character size.
+    - Settings of this command are effective until ESC @ is executed, the printer is reset, the power is turned off, or one of the following commands is executed:
+        - Bit 2, 3 (character size): GS ! or FS W
+        - Bit 7 (underline mode): FS -
+ */
+export function selectKanjiPrintModes(doubleWidth: boolean = false, doubleHeight: boolean = false, underline: boolean = false) {
+    let n = 0
+
+    n |= (+doubleWidth) << 2
+    n |= (+doubleHeight) << 3
+    n |= (+underline) << 7
+
+    return [FS, 0x21, n]
+}
+
+/**
+ * FS & -- Select Kanji character mode
+    - In Kanji character mode, the printer reads 2 bytes at a time (from the first byte range of the selected code system) as one multi-byte code character. Bytes below 80h are still printed as 1-byte code characters.
+    - On models that start in Kanji character mode (Japanese, Simplified and Traditional Chinese, and Korean models), FS . has to be sent to print the upper half of the code tables selected with ESC t.
+    - Kanji character mode is effective until FS . is executed, ESC @ is executed, the printer is reset, or the power is turned off.
+ */
+export function selectKanjiCharacterMode() {
+    return [FS, 0x26]
+}
+
+/**
+ * FS . -- Cancel Kanji character mode
+    - Bytes from 80h to FFh are printed as 1-byte code characters from the code table selected with ESC t.
+    - Kanji character mode stays cancelled until FS & is executed.
+ */
+export function cancelKanjiCharacterMode() {
+    return [FS, 0x2e]
+}
+
+export type KanjiCodeSystem = 'jis' | 'shift-jis' | 'shift-jis-2004'
+
+export const kanjiCodeSystemMap: Record<KanjiCodeSystem, number> = {
+    jis: 0,
+    'shift-jis': 1,
+    'shift-jis-2004': 2,
+}
+
+/**
+ * FS C -- Select Kanji character code system
+    - This command is only available on Japanese models.
+    - With JIS, both bytes of a character are in the range 21h – 7Eh, so text has to be sent in Kanji character mode only.
+    - Settings of this command are effective until the printer is reset or the power is turned off. ESC @ does not change it.
+ */
+export function selectKanjiCharacterCodeSystem(system: KanjiCodeSystem) {
+    return [FS, 0x43, kanjiCodeSystemMap[system]]
+}
+
+/**
+ * FS S -- Sets the left- and right-side spacing of Kanji characters to left × and right × (horizontal or vertical motion unit).
+    - The character spacing set by this command is effective for multi-byte code characters only. ESC SP sets it for 1-byte code characters.
+    - When characters are enlarged, the character spacing is n times normal value.
+    - When Standard mode is selected, the horizontal motion unit is used. In Page mode, the unit follows the print direction set by ESC T.
+    - Settings of this command are effective until ESC @ is executed, the printer is reset, or the power is turned off.
+ */
+export function setKanjiCharacterSpacing(left: number = 0, right: number = 0) {
+    assert(left >= 0 && left <= 255)
+    assert(right >= 0 && right <= 255)
+
+    return [FS, 0x53, left, right]
+}
+
 /**
  * GS ! -- In Standard mode, turns upside-down print mode on or off.
     - The character size set by this command is effective for alphanumeric, Kana, multilingual, and user-defined characters.
@@ -703,8 +834,8 @@ export function selectCharacterSize(width: number = 1, height: number = 1) {
     assert(height >= 1)
     assert(height <= 8)
 
-    const widthValue = 16 * (width - 1)
-    const heightValue = 16 * (height - 1)
+    const widthValue = width - 1
+    const heightValue = height - 1
 
     const n = (widthValue << 4) + heightValue
 
@@ -729,7 +860,7 @@ export function setAbsoluteVerticalPrintPositionInPageMode(n: number) {
 // GS ( E
 // GS ( H
 // GS ( K
-// GS ( L
+// GS ( L / GS 8 L -- graphics are in graphics.ts
 // GS ( N
 // GS ( k
 // GS :
@@ -748,6 +879,14 @@ export function inverse(enable: boolean = false) {
 }
 
 export type PrintPositionOfHriCharacters = 'none' | 'above' | 'below' | 'both'
+
+export const printPositionOfHriCharactersMap: Record<PrintPositionOfHriCharacters, number> = {
+    none: 0,
+    above: 1,
+    below: 2,
+    both: 3,
+}
+
 /**
  * GS H -- Selects the print position of Human Readable Interpretation (HRI) characters when printing a barcode
     - HRI characters are printed using the font specified by GS f.
@@ -755,14 +894,7 @@ export type PrintPositionOfHriCharacters = 'none' | 'above' | 'below' | 'both'
     - HRI character is Human Readable Interpretation character indicated with barcode.
 */
 export function selectPrintPositionOfBarcodeHriCharacters(position: PrintPositionOfHriCharacters) {
-    const map: Record<PrintPositionOfHriCharacters, number> = {
-        none: 0,
-        above: 1,
-        below: 2,
-        both: 3,
-    }
-
-    return [GS, 0x48, map[position]]
+    return [GS, 0x48, printPositionOfHriCharactersMap[position]]
 }
 
 // GS I
@@ -798,11 +930,12 @@ export function setLeftMargin(n: number) {
     - Setting of this command is effective until ESC @ is executed, the printer is reset, or the power is turned off.
     - The calculated result from combining this command with others is truncated to the minimum value of the mechanical pitch.
     - This command does not affect the current setting values.
+    - When x or y is 0, the default setting of that motion unit is used.
 */
 export function setHorizontalAndVerticalMotionUnits(x: number, y: number) {
-    assert(x > 0)
+    assert(x >= 0)
     assert(x <= 255)
-    assert(y > 0)
+    assert(y >= 0)
     assert(y <= 255)
 
     return [GS, 0x50, x, y]
@@ -821,7 +954,6 @@ export function cut(feedVertical: number = 0) {
         return [GS, 0x56, 65, feedVertical]
     }
 
-    console.log('check if this is doing a full cut or partial')
     return [GS, 0x56, 1]
 }
 
@@ -855,13 +987,46 @@ export function setRelativeVerticalPrintPositionInPageMode(d: number) {
     assert(d >= -32768)
     assert(d <= 32767)
 
-    const normalised = d + 32768
+    const normalised = d < 0 ? 65536 + d : d
 
     return [GS, 0x5C, ...byteSplit(normalised)]
 }
 
 // GS ^
-// GS a
+
+export type AutomaticStatusBackOptions = {
+    /** Drawer kick-out connector pin 3 */
+    drawer?: boolean
+    onlineOffline?: boolean
+    error?: boolean
+    rollPaperSensor?: boolean
+    panelSwitch?: boolean
+}
+
+/**
+ * GS a -- Enables or disables Automatic Status Back (ASB), which makes the printer transmit a 4-byte status packet whenever one of the enabled statuses changes.
+    - Passing no options enables every status; passing an empty object (or all false) disables ASB.
+    - When ASB is enabled, the printer transmits the current status once as soon as the command is received.
+    - The first byte of each packet has bit 4 set and bits 0, 1 and 7 clear, which tells it apart from replies to DLE EOT and other transmitted data. See status.ts for parsing.
+    - Settings of this command are effective until ESC @ is executed, the printer is reset, or the power is turned off.
+*/
+export function setAutomaticStatusBack(options: AutomaticStatusBackOptions = {
+    drawer: true,
+    onlineOffline: true,
+    error: true,
+    rollPaperSensor: true,
+    panelSwitch: true,
+}) {
+    let n = 0
+
+    n |= (+!!options.drawer) << 0
+    n |= (+!!options.onlineOffline) << 1
+    n |= (+!!options.error) << 2
+    n |= (+!!options.rollPaperSensor) << 3
+    n |= (+!!options.panelSwitch) << 6
+
+    return [GS, 0x61, n]
+}
 
 /**
  * GS b -- Turns smoothing mode on or off.
@@ -900,68 +1065,82 @@ export function setBarcodeHeight(n: number) {
     return [GS, 0x68, n]
 }
 
-// todo: implement
+// GS k -- the barcode systems are in barcodes.ts, each with its own validation
+// and check digits. GS1-128, GS1 DataBar and CODE128 auto (m = 74 to 79) are
+// not supported by the TM-T88IV.
+
 /**
- * GS h -- Prints the barcode using the barcode system specified.
+ * GS w -- Sets the horizontal size of a barcode, the width of its narrowest module, to n dots.
  * 
-    - The units for n depend on the printer model.
+    - Multi-level barcodes (UPC, EAN, CODE93, CODE128) use n dots for the narrow module and multiples of it for the others.
+    - Binary-level barcodes (CODE39, ITF, CODABAR) use n dots for the narrow element and about 2.5 × n for the wide element.
+    - The default is n = 3.
     - This command setting is effective until performing of ESC @, reset or power-off.
 */
-// export type Barcode = 'upc-a'
-//     | 'upc-e'
-//     | 'jan13-ean13'
-//     | 'jan8-ean8'
-//     | 'code39'
-//     | 'itf-interleaved-2-of-5'
-//     | 'codabar-nw-7'
-//     | 'code93'
-//     | 'code128'
-//     | 'gs1-128'
-//     | 'gs1-databar-omnidirectional'
-//     | 'gs1-databar-truncated'
-//     | 'gs1-databar-limited'
-//     | 'gs1-databar-expanded'
-//     | 'code128-auto'
+export function setBarcodeWidth(n: number = 3) {
+    assert(n >= 2)
+    assert(n <= 6)
+
+    return [GS, 0x77, n]
+}
 
 
 
 
 // GS r
+
 /**
- * GS h -- Prints a raster bit image 
+ * Packs rows of dots (1 for black) into bytes, 8 dots to a byte with the
+ * leftmost in the most significant bit. Each row is padded to a whole byte.
+ */
+export function packBits(data: number[][]) {
+    const width = data[0]?.length ?? 0
+    const widthInBytes = Math.ceil(width / 8)
+    const packed = new Uint8Array(widthInBytes * data.length)
+
+    for (let y = 0; y < data.length; y++) {
+        const row = data[y]!
+        const offset = y * widthInBytes
+
+        for (let x = 0; x < width; x++) {
+            if (row[x]) packed[offset + (x >> 3)]! |= 0x80 >> (x & 7)
+        }
+    }
+
+    return packed
+}
+
+/**
+ * GS v 0 -- Prints a raster bit image 
  * 
     - The units for n depend on the printer model.
     - This command setting is effective until performing of ESC @, reset or power-off.
+    - Tall images can be more than the printer can take in one command (2303 dots on the TM-T88IV), so they can be split into bands of `bandHeight` dots, each sent as a separate command. The bands print without gaps between them.
 */
-export function printRasterBitImage(data: number[][], verticalScale: 1 | 2 = 1, horizontalScale: 1 | 2 = 1) {
+export function printRasterBitImage(data: number[][], verticalScale: 1 | 2 = 1, horizontalScale: 1 | 2 = 1, bandHeight: number = data.length) {
     assert(data.length >= 1)
-    assert(data.length < 65536)
     assert(data[0]!.length >= 1)
     assert(data[0]!.length < 65536)
+    assert(bandHeight >= 1 && bandHeight < 65536)
 
     assert(data.every(line => data[0] && line.length == data[0].length))
 
     if (!data[0]) throw new Error('malformed data in printRasterBitImage')
 
     const widthInBytes = Math.ceil(data[0].length / 8)
-    const heightInDots = data.length
+    const packed = packBits(data)
 
     const m = ((verticalScale - 1) * 2) + (horizontalScale - 1)
 
-    const a = []
-
-    for (const row of data) {
-        for (let i = 0; i < row.length; i += 8) {
-            const binary = row.slice(i, i + 8)
-                .map(x => x ? 1 : 0)
-                .join('')
-                .padEnd(8, '0')
+    const commands: number[] = []
 
-            const n = parseInt(binary, 2)
+    for (let y = 0; y < data.length; y += bandHeight) {
+        const height = Math.min(bandHeight, data.length - y)
+        const band = packed.subarray(y * widthInBytes, (y + height) * widthInBytes)
 
-            a.push(n)
-        }
+        commands.push(GS, 0x76, 0x30, m, ...byteSplit(widthInBytes), ...byteSplit(height))
+        for (const byte of band) commands.push(byte)
     }
 
-    return [GS, 0x76, 0x30, m, ...byteSplit(widthInBytes), ...byteSplit(heightInDots), ...a]
+    return commands
 }
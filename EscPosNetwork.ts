@@ -0,0 +1,293 @@
+import { EventEmitter } from 'node:events'
+import net from 'node:net'
+
+import { setAutomaticStatusBack } from './EscPosEncoder.js'
+import { openDrawer } from './drawer.js'
+import {
+    AutomaticStatusBackParser,
+    DEFAULT_AUTOMATIC_STATUS_BACK,
+    receiveData,
+    refreshStatus,
+} from './status.js'
+import {
+    DetachedError,
+    NotOpenError,
+    TransferTimeoutError,
+    TransportError,
+} from './errors.js'
+import { writeInChunks } from './utils/chunkedWrite.js'
+import { ReceiveQueue } from './utils/receiveQueue.js'
+
+import type { AutomaticStatusBackOptions } from './EscPosEncoder.js'
+import type { OpenDrawerOptions } from './drawer.js'
+import type { PrinterStatus, StatusEvents } from './status.js'
+import type { Transport } from './Transport.js'
+import type { WriteOptions } from './utils/chunkedWrite.js'
+
+export type EscPosNetworkOptions = {
+    /** Raw printing port, 9100 unless it has been changed on the printer */
+    port?: number
+    /** How long to wait for the connection before giving up, in ms */
+    connectTimeout?: number
+    /** Reconnect automatically when the connection drops */
+    reconnect?: boolean
+    /** Delay before the first reconnection attempt, doubled after every failure, in ms */
+    reconnectDelay?: number
+    maxReconnectDelay?: number
+    /** The most that is handed to the socket before waiting for it to be flushed */
+    chunkSize?: number
+    /** How long a single chunk may take, in ms. 0 waits forever */
+    writeTimeout?: number
+    /** How long close() waits for the printer to close its end before dropping the connection, in ms */
+    closeTimeout?: number
+}
+
+export type NetworkEvents = StatusEvents & {
+    connect: []
+    /** The connection dropped. A reconnection is attempted if enabled */
+    disconnect: [error?: Error]
+}
+
+/**
+ * Talks to Ethernet printers over raw TCP, with the same open/write/close
+ * surface as EscPosUSB. Status replies and Automatic Status Back arrive on
+ * the same socket as everything else.
+ */
+export default class EscPosNetwork extends EventEmitter<NetworkEvents> implements Transport {
+    socket?: net.Socket = undefined
+
+    readonly host: string
+    readonly port: number
+    readonly options: Required<Omit<EscPosNetworkOptions, 'port'>>
+
+    /** How long read() waits for the printer, in ms. 0 waits forever */
+    readTimeout = 1000
+
+    /** The last status received, from either getStatus or Automatic Status Back */
+    status?: PrinterStatus = undefined
+
+    private statusParser = new AutomaticStatusBackParser()
+    private received = new ReceiveQueue()
+
+    /** Set while the connection is wanted, i.e. between open() and close() */
+    private active = false
+    private reconnectTimer?: NodeJS.Timeout = undefined
+    private reconnectAttempts = 0
+    /** The connection attempt under way, which open() waits for rather than starting another */
+    private connecting?: Promise<void> = undefined
+    private automaticStatusBack?: AutomaticStatusBackOptions = undefined
+
+    constructor(host: string, options: EscPosNetworkOptions = {}) {
+        super()
+
+        this.host = host
+        this.port = options.port ?? 9100
+        this.options = {
+            connectTimeout: options.connectTimeout ?? 5000,
+            reconnect: options.reconnect ?? true,
+            reconnectDelay: options.reconnectDelay ?? 1000,
+            maxReconnectDelay: options.maxReconnectDelay ?? 30000,
+            chunkSize: options.chunkSize ?? 4096,
+            writeTimeout: options.writeTimeout ?? 10000,
+            closeTimeout: options.closeTimeout ?? 2000,
+        }
+    }
+
+    get connected() {
+        return this.socket != undefined && !this.socket.connecting && !this.socket.destroyed
+    }
+
+    async open() {
+        if (this.connected) return
+
+        this.active = true
+
+        try {
+            await (this.connecting ?? this.connect(false))
+        } catch (e) {
+            this.active = false
+            throw e
+        }
+    }
+
+    /**
+     * Connects the socket. A failed first connection is reported to open(),
+     * failed reconnections keep being retried.
+     */
+    private connect(reconnecting: boolean) {
+        clearTimeout(this.reconnectTimer)
+
+        const socket = net.createConnection({ host: this.host, port: this.port })
+        this.socket = socket
+
+        let settled = false
+        let connected = false
+
+        this.connecting = new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                socket.destroy(new TransferTimeoutError(`timed out connecting to ${this.host}:${this.port}`))
+            }, this.options.connectTimeout)
+
+            socket.once('connect', () => {
+                clearTimeout(timer)
+                settled = true
+                connected = true
+                this.connecting = undefined
+                this.reconnectAttempts = 0
+
+                socket.setNoDelay(true)
+                socket.setKeepAlive(true)
+
+                this.statusParser.reset()
+                this.emit('connect')
+
+                // the printer may have been reset while we were away
+                if (this.automaticStatusBack) {
+                    socket.write(Buffer.from(setAutomaticStatusBack(this.automaticStatusBack)))
+                }
+
+                resolve()
+            })
+
+            socket.on('data', data => receiveData(this, this.statusParser, this.received, data))
+
+            socket.on('error', e => {
+                if (!settled) {
+                    clearTimeout(timer)
+                    settled = true
+                    this.connecting = undefined
+                    reject(e instanceof TransportError
+                        ? e
+                        : new TransportError(`failed to connect to ${this.host}:${this.port}`, { cause: e }))
+                }
+            })
+
+            socket.on('close', hadError => {
+                clearTimeout(timer)
+
+                if (this.socket != socket) return
+                this.socket = undefined
+
+                this.received.cancel(new DetachedError(`connection to ${this.host}:${this.port} closed`))
+
+                if (!this.active) return
+
+                if (connected) this.emit('disconnect', hadError ? new DetachedError(`connection to ${this.host}:${this.port} failed`) : undefined)
+
+                if (this.options.reconnect && (connected || reconnecting)) this.scheduleReconnect()
+            })
+        })
+
+        return this.connecting
+    }
+
+    private scheduleReconnect() {
+        const delay = Math.min(
+            this.options.reconnectDelay * 2 ** this.reconnectAttempts,
+            this.options.maxReconnectDelay,
+        )
+
+        this.reconnectAttempts++
+
+        this.reconnectTimer = setTimeout(() => {
+            if (!this.active) return
+
+            this.connect(true).catch(e => {
+                if (this.listenerCount('error') > 0) this.emit('error', e)
+            })
+        }, delay)
+    }
+
+    async write(data: Uint8Array, options?: WriteOptions) {
+        if (!this.connected) {
+            throw this.active
+                ? new DetachedError(`tried to write, but the connection to ${this.host}:${this.port} is down`)
+                : new NotOpenError(`tried to write, but not connected to ${this.host}:${this.port}`)
+        }
+
+        await writeInChunks(data, chunk => this.writeChunk(chunk), this.options, options)
+    }
+
+    /** Resolves once the chunk has been flushed to the socket */
+    private writeChunk(chunk: Uint8Array) {
+        return new Promise<void>((resolve, reject) => {
+            if (!this.socket || !this.connected) {
+                reject(this.active
+                    ? new DetachedError(`the connection to ${this.host}:${this.port} dropped while writing`)
+                    : new NotOpenError(`the connection to ${this.host}:${this.port} was closed while writing`))
+                return
+            }
+
+            this.socket.write(chunk, e => {
+                if (e) reject(new DetachedError(`failed to write to ${this.host}:${this.port}`, { cause: e }))
+                else resolve()
+            })
+        })
+    }
+
+    /**
+     * Reads whatever the printer has sent that wasn't a status packet
+     */
+    async read(length?: number) {
+        if (!this.connected) {
+            throw new NotOpenError(`tried to read, but not connected to ${this.host}:${this.port}`)
+        }
+
+        return this.received.read(length, this.readTimeout)
+    }
+
+    /**
+     * Asks the printer for its status with DLE EOT 1 to 4 and parses the replies
+     */
+    getStatus(): Promise<PrinterStatus> {
+        return refreshStatus(this)
+    }
+
+    /**
+     * Kicks the cash drawer and waits for its sensor to report it open, see openDrawer in drawer.ts
+     */
+    openDrawer(options?: OpenDrawerOptions) {
+        return openDrawer(this, options)
+    }
+
+    /**
+     * Turns on Automatic Status Back with GS a. Status packets are picked out of
+     * the socket data and turned into events. It is turned on again after a reconnect.
+     */
+    async enableAutomaticStatusBack(options?: AutomaticStatusBackOptions) {
+        const command = setAutomaticStatusBack(options)
+
+        this.automaticStatusBack = options ?? DEFAULT_AUTOMATIC_STATUS_BACK
+
+        await this.write(Buffer.from(command))
+    }
+
+    async disableAutomaticStatusBack() {
+        this.automaticStatusBack = undefined
+
+        await this.write(Buffer.from(setAutomaticStatusBack({})))
+    }
+
+    close() {
+        this.active = false
+        clearTimeout(this.reconnectTimer)
+
+        const socket = this.socket
+
+        return new Promise<void>(resolve => {
+            if (!socket || socket.destroyed) {
+                resolve()
+                return
+            }
+
+            // a printer that went away never closes its end
+            const timer = setTimeout(() => socket.destroy(), this.options.closeTimeout)
+
+            socket.once('close', () => {
+                clearTimeout(timer)
+                resolve()
+            })
+            socket.end()
+        })
+    }
+}
@@ -0,0 +1,266 @@
+import { EventEmitter } from 'node:events'
+import { SerialPort } from 'serialport'
+
+import { setAutomaticStatusBack } from './EscPosEncoder.js'
+import { openDrawer } from './drawer.js'
+import {
+    DetachedError,
+    NotOpenError,
+    TransportError,
+} from './errors.js'
+import {
+    AutomaticStatusBackParser,
+    DEFAULT_AUTOMATIC_STATUS_BACK,
+    receiveData,
+    refreshStatus,
+} from './status.js'
+import { writeInChunks } from './utils/chunkedWrite.js'
+import { ReceiveQueue } from './utils/receiveQueue.js'
+
+import type { SerialPortMock } from 'serialport'
+import type { AutomaticStatusBackOptions } from './EscPosEncoder.js'
+import type { OpenDrawerOptions } from './drawer.js'
+import type { PrinterStatus, StatusEvents } from './status.js'
+import type { Transport } from './Transport.js'
+import type { WriteOptions } from './utils/chunkedWrite.js'
+
+export type FlowControl = 'rts-cts' | 'xon-xoff' | 'none'
+
+/** What open() creates the port with, as SerialPort and SerialPortMock take it */
+export type SerialPortOptions = {
+    path: string
+    baudRate: number
+    dataBits: 7 | 8
+    parity: 'none' | 'even' | 'odd'
+    stopBits: 1 | 2
+    rtscts: boolean
+    xon: boolean
+    xoff: boolean
+    autoOpen: false
+}
+
+export type EscPosSerialOptions = {
+    /** Has to match the printer's DIP switches. TM-T88IV units ship at 38400 */
+    baudRate?: number
+    dataBits?: 7 | 8
+    parity?: 'none' | 'even' | 'odd'
+    stopBits?: 1 | 2
+    /**
+     * How the printer signals that it is busy: hardware handshaking on
+     * RTS/CTS, which needs a cable that takes the printer's busy line to CTS,
+     * or XON/XOFF characters in the data
+     */
+    flowControl?: FlowControl
+    /**
+     * How much to hand to the port before waiting for it to be sent. Keeps
+     * large raster images from piling up behind a busy printer.
+     */
+    chunkSize?: number
+    /** How long a chunk may stay unsent while the printer is busy, in ms. 0 waits forever */
+    writeTimeout?: number
+    /**
+     * Creates the port, a SerialPort unless given. A SerialPortMock, for one,
+     * lets the transport be used without a printer.
+     */
+    createPort?: (options: SerialPortOptions) => SerialPort | SerialPortMock
+}
+
+/**
+ * Talks to printers on an RS-232 port (or a USB-serial adapter) through
+ * `/dev/tty*` or `COM*`, with the same surface as EscPosUSB. Flow control is
+ * left to the serial driver; writes are drained chunk by chunk so they only
+ * resolve once the printer has taken the data.
+ */
+export default class EscPosSerial extends EventEmitter<StatusEvents> implements Transport {
+    port?: SerialPort | SerialPortMock = undefined
+
+    readonly path: string
+    readonly options: Required<EscPosSerialOptions>
+
+    /** How long read() waits for the printer, in ms. 0 waits forever */
+    readTimeout = 1000
+
+    /** The last status received, from either getStatus or Automatic Status Back */
+    status?: PrinterStatus = undefined
+
+    private statusParser = new AutomaticStatusBackParser()
+    private received = new ReceiveQueue()
+    private automaticStatusBack?: AutomaticStatusBackOptions = undefined
+
+    constructor(path: string, options: EscPosSerialOptions = {}) {
+        super()
+
+        this.path = path
+        this.options = {
+            baudRate: options.baudRate ?? 38400,
+            dataBits: options.dataBits ?? 8,
+            parity: options.parity ?? 'none',
+            stopBits: options.stopBits ?? 1,
+            flowControl: options.flowControl ?? 'rts-cts',
+            chunkSize: options.chunkSize ?? 256,
+            writeTimeout: options.writeTimeout ?? 10000,
+            createPort: options.createPort ?? (portOptions => new SerialPort(portOptions)),
+        }
+    }
+
+    get connected() {
+        return this.port?.isOpen ?? false
+    }
+
+    open() {
+        return new Promise<void>((resolve, reject) => {
+            if (this.connected) {
+                resolve()
+                return
+            }
+
+            const { flowControl } = this.options
+
+            const port = this.options.createPort({
+                path: this.path,
+                baudRate: this.options.baudRate,
+                dataBits: this.options.dataBits,
+                parity: this.options.parity,
+                stopBits: this.options.stopBits,
+                rtscts: flowControl == 'rts-cts',
+                xon: flowControl == 'xon-xoff',
+                xoff: flowControl == 'xon-xoff',
+                autoOpen: false,
+            })
+
+            port.open(e => {
+                if (e) {
+                    reject(new TransportError(`failed to open ${this.path}`, { cause: e }))
+                    return
+                }
+
+                this.port = port
+                this.statusParser.reset()
+
+                port.on('data', (data: Buffer) => receiveData(this, this.statusParser, this.received, data))
+
+                // write failures also end up here, after write() has rejected with them
+                port.on('error', e => {
+                    if (this.listenerCount('error') > 0) this.emit('error', new TransportError(`${this.path} failed`, { cause: e }))
+                })
+
+                port.on('close', (e: Error & { disconnected?: boolean } | null) => {
+                    if (this.port != port) return
+                    this.port = undefined
+
+                    this.received.cancel(e?.disconnected
+                        ? new DetachedError(`${this.path} was disconnected`, { cause: e })
+                        : new NotOpenError(`${this.path} was closed`))
+                })
+
+                // the printer may have been reset while the port was closed
+                if (this.automaticStatusBack) {
+                    port.write(Buffer.from(setAutomaticStatusBack(this.automaticStatusBack)))
+                }
+
+                resolve()
+            })
+        })
+    }
+
+    /**
+     * Writes `chunkSize` bytes at a time, waiting for each chunk to be sent
+     * before the next. While the printer holds its busy line (or has sent
+     * XOFF) the driver stops sending, so this waits with it.
+     */
+    async write(data: Uint8Array, options?: WriteOptions) {
+        if (!this.connected) {
+            throw new NotOpenError(`tried to write, but ${this.path} is not open`)
+        }
+
+        await writeInChunks(data, chunk => this.writeChunk(chunk), this.options, options)
+    }
+
+    private writeChunk(chunk: Uint8Array) {
+        return new Promise<void>((resolve, reject) => {
+            const port = this.port
+
+            if (!port || !port.isOpen) {
+                reject(new NotOpenError(`${this.path} was closed while writing`))
+                return
+            }
+
+            const fail = (e: Error) => {
+                reject(port.isOpen
+                    ? new TransportError(`failed to write to ${this.path}`, { cause: e })
+                    : new DetachedError(`${this.path} went away while writing`, { cause: e }))
+            }
+
+            port.write(Buffer.from(chunk), e => {
+                if (e) {
+                    fail(e)
+                    return
+                }
+
+                port.drain(e => {
+                    if (e) fail(e)
+                    else resolve()
+                })
+            })
+        })
+    }
+
+    /**
+     * Reads whatever the printer has sent that wasn't a status packet
+     */
+    async read(length?: number) {
+        if (!this.connected) {
+            throw new NotOpenError(`tried to read, but ${this.path} is not open`)
+        }
+
+        return this.received.read(length, this.readTimeout)
+    }
+
+    /**
+     * Asks the printer for its status with DLE EOT 1 to 4 and parses the replies
+     */
+    getStatus(): Promise<PrinterStatus> {
+        return refreshStatus(this)
+    }
+
+    /**
+     * Kicks the cash drawer and waits for its sensor to report it open, see openDrawer in drawer.ts
+     */
+    openDrawer(options?: OpenDrawerOptions) {
+        return openDrawer(this, options)
+    }
+
+    /**
+     * Turns on Automatic Status Back with GS a. Status packets are picked out of
+     * the incoming data and turned into events. It is turned on again when the port is reopened.
+     */
+    async enableAutomaticStatusBack(options?: AutomaticStatusBackOptions) {
+        const command = setAutomaticStatusBack(options)
+
+        this.automaticStatusBack = options ?? DEFAULT_AUTOMATIC_STATUS_BACK
+
+        await this.write(Buffer.from(command))
+    }
+
+    async disableAutomaticStatusBack() {
+        this.automaticStatusBack = undefined
+
+        await this.write(Buffer.from(setAutomaticStatusBack({})))
+    }
+
+    close() {
+        const port = this.port
+
+        return new Promise<void>((resolve, reject) => {
+            if (!port || !port.isOpen) {
+                resolve()
+                return
+            }
+
+            port.close(e => {
+                if (e) reject(new TransportError(`failed to close ${this.path}`, { cause: e }))
+                else resolve()
+            })
+        })
+    }
+}
\ No newline at end of file
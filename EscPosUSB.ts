@@ -1,96 +1,516 @@
-import { usb, findByIds, Device, Endpoint } from 'usb'
+import { EventEmitter } from 'node:events'
+import { usb, getDeviceList, Device, InEndpoint, OutEndpoint } from 'usb'
 
-type Callback = (e?: any) => void
+import { setAutomaticStatusBack } from './EscPosEncoder.js'
+import { openDrawer } from './drawer.js'
+import {
+    DetachedError,
+    DeviceNotFoundError,
+    NoOutEndpointError,
+    NotOpenError,
+    TransferTimeoutError,
+    TransportError,
+} from './errors.js'
+import { DEFAULT_PROFILE, PROFILES } from './profiles.js'
+import {
+    AutomaticStatusBackParser,
+    DEFAULT_AUTOMATIC_STATUS_BACK,
+    receiveData,
+    refreshStatus,
+} from './status.js'
+import { writeInChunks } from './utils/chunkedWrite.js'
+import { ReceiveQueue } from './utils/receiveQueue.js'
 
-export default class EscPosUSB {
-    device?: Device = undefined
-    endpoint?: Endpoint = undefined
+import type { AutomaticStatusBackOptions } from './EscPosEncoder.js'
+import type { OpenDrawerOptions } from './drawer.js'
+import type { PrinterStatus, StatusEvents } from './status.js'
+import type { Transport } from './Transport.js'
+import type { WriteOptions } from './utils/chunkedWrite.js'
+import type { LibUSBException } from 'usb'
+
+/**
+ * Turns libusb failures into the transport errors callers can act on
+ */
+function toTransportError(e: unknown, action: string) {
+    if (e instanceof TransportError) return e
 
-    constructor(vid?: number, pid?: number) {
-        const tm88iv = {
-            vendor: 0x4b8,
-            product: 0x202
+    // LibUSBException is only a type at runtime, so check for its errno instead
+    const errno = (e as Partial<LibUSBException> | undefined)?.errno
+
+    if (typeof errno == 'number') {
+        switch (errno) {
+            case usb.LIBUSB_TRANSFER_TIMED_OUT:
+            case usb.LIBUSB_ERROR_TIMEOUT:
+                return new TransferTimeoutError(`timed out trying to ${action}`, { cause: e })
+            case usb.LIBUSB_TRANSFER_NO_DEVICE:
+            case usb.LIBUSB_ERROR_NO_DEVICE:
+                return new DetachedError(`device was detached while trying to ${action}`, { cause: e })
         }
+    }
 
-        this.device = findByIds(
-            vid ?? tm88iv.vendor,
-            pid ?? tm88iv.product,
-        )
+    return new TransportError(`failed to ${action}`, { cause: e })
+}
 
-        usb.on('detach', device => {
-            if (device == this.device) {
-                this.device = undefined
-            }
+/** Printers that are picked up even if they don't report the USB printer class */
+const KNOWN_PRINTERS = Object.values(PROFILES).flatMap(x => x.usbIds)
+
+export type UsbPrinterInfo = {
+    vendorId: number
+    productId: number
+    busNumber: number
+    /** Bus and port numbers from the root hub down, like Linux sysfs names, e.g. '1-1.4' */
+    portPath: string
+    /** Only available if the device could be opened to read its string descriptors */
+    serialNumber?: string
+    manufacturer?: string
+    product?: string
+    device: Device
+}
+
+/** Which printer to open. Every field that is set has to match */
+export type UsbPrinterSelector = {
+    vendorId?: number
+    productId?: number
+    serialNumber?: string
+    portPath?: string
+}
+
+export type EscPosUSBOptions = UsbPrinterSelector & {
+    /** Open the printer again when it is plugged back in after being detached */
+    reopen?: boolean
+    chunkSize?: number
+    writeTimeout?: number
+}
+
+export type UsbEvents = StatusEvents & {
+    /** The printer was plugged back in and has been opened again */
+    attach: []
+    /** The printer was unplugged. It is opened again when it comes back if `reopen` is set */
+    detach: []
+}
+
+function getPortPath(device: Device) {
+    return `${device.busNumber}-${device.portNumbers.join('.')}`
+}
+
+function isPrinter(device: Device) {
+    const { bDeviceClass, idVendor, idProduct } = device.deviceDescriptor
+
+    if (bDeviceClass == usb.LIBUSB_CLASS_PRINTER) return true
+    if (KNOWN_PRINTERS.some(x => x.vendorId == idVendor && x.productId == idProduct)) return true
+
+    try {
+        // most printers declare the class on the interface instead of the device
+        return device.configDescriptor?.interfaces.some(alternates =>
+            alternates.some(x => x.bInterfaceClass == usb.LIBUSB_CLASS_PRINTER)) ?? false
+    } catch {
+        return false
+    }
+}
+
+function getStringDescriptor(device: Device, index: number) {
+    return new Promise<string | undefined>((resolve, reject) => {
+        device.getStringDescriptor(index, (e, value) => {
+            if (e) reject(e)
+            else resolve(value)
         })
+    })
+}
+
+/**
+ * Reads the manufacturer, product and serial number strings, which needs the
+ * device to be opened. Devices that can't be opened (in use by another
+ * driver, no permission) just don't get them.
+ */
+async function readStrings(device: Device): Promise<Pick<UsbPrinterInfo, 'manufacturer' | 'product' | 'serialNumber'>> {
+    const wasOpen = device.interfaces != undefined
+
+    try {
+        if (!wasOpen) device.open(false)
+
+        const { iManufacturer, iProduct, iSerialNumber } = device.deviceDescriptor
+
+        return {
+            manufacturer: await getStringDescriptor(device, iManufacturer),
+            product: await getStringDescriptor(device, iProduct),
+            serialNumber: await getStringDescriptor(device, iSerialNumber),
+        }
+    } catch {
+        return {}
+    } finally {
+        if (!wasOpen) {
+            try {
+                device.close()
+            } catch {
+                // it may have gone away in the meantime
+            }
+        }
     }
+}
 
-    open(callback?: Callback) {
-        const cb = callback ?? this.logError
+async function describe(device: Device): Promise<UsbPrinterInfo> {
+    return {
+        vendorId: device.deviceDescriptor.idVendor,
+        productId: device.deviceDescriptor.idProduct,
+        busNumber: device.busNumber,
+        portPath: getPortPath(device),
+        ...await readStrings(device),
+        device,
+    }
+}
+
+/**
+ * Checks everything but the serial number, which can only be read after
+ * opening the device
+ */
+function matchesDescriptor(device: Device, selector: UsbPrinterSelector) {
+    const { idVendor, idProduct } = device.deviceDescriptor
+
+    return (selector.vendorId == undefined || selector.vendorId == idVendor)
+        && (selector.productId == undefined || selector.productId == idProduct)
+        && (selector.portPath == undefined || selector.portPath == getPortPath(device))
+}
+
+async function matches(device: Device, selector: UsbPrinterSelector) {
+    if (!matchesDescriptor(device, selector)) return false
+    if (selector.serialNumber == undefined) return true
+
+    const { serialNumber } = await readStrings(device)
+    return serialNumber == selector.serialNumber
+}
+
+/**
+ * Lists the attached devices that look like printers: the ones with the USB
+ * printer class on the device or one of its interfaces, and known models
+ */
+export async function listPrinters(): Promise<UsbPrinterInfo[]> {
+    const printers: UsbPrinterInfo[] = []
+
+    for (const device of getDeviceList()) {
+        if (isPrinter(device)) printers.push(await describe(device))
+    }
+
+    return printers
+}
+
+/** Finds the first attached printer that matches */
+export async function findPrinter(selector: UsbPrinterSelector) {
+    for (const device of getDeviceList()) {
+        if (isPrinter(device) && await matches(device, selector)) return device
+    }
+
+    return undefined
+}
+
+function describeSelector(selector: UsbPrinterSelector) {
+    const parts = [
+        selector.vendorId != undefined ? `vendor 0x${selector.vendorId.toString(16)}` : undefined,
+        selector.productId != undefined ? `product 0x${selector.productId.toString(16)}` : undefined,
+        selector.serialNumber != undefined ? `serial number ${selector.serialNumber}` : undefined,
+        selector.portPath != undefined ? `port ${selector.portPath}` : undefined,
+    ]
+
+    return parts.filter(x => x != undefined).join(', ') || 'any printer'
+}
+
+export default class EscPosUSB extends EventEmitter<UsbEvents> implements Transport {
+    device?: Device = undefined
+    endpoint?: OutEndpoint = undefined
+    inEndpoint?: InEndpoint = undefined
+
+    /** How long read() waits for the printer, in ms. 0 waits forever */
+    readTimeout = 1000
+
+    /** The most that is sent in one bulk transfer */
+    chunkSize = 4096
+    /** How long a single chunk may take, in ms. 0 waits forever */
+    writeTimeout = 5000
+
+    /** The last status received, from either getStatus or Automatic Status Back */
+    status?: PrinterStatus = undefined
+
+    private statusParser = new AutomaticStatusBackParser()
+    /** Data that arrived while polling and wasn't a status packet, waiting for read() */
+    private received = new ReceiveQueue()
+
+    readonly selector: UsbPrinterSelector
+    readonly reopen: boolean
+
+    /** Set while the printer is wanted, i.e. between open() and close() */
+    private active = false
+    private automaticStatusBack?: AutomaticStatusBackOptions = undefined
+
+    /**
+     * Picks the printer by vendor and product ID (a TM-T88IV by default), or by
+     * any of the fields of a selector, e.g. the serial number or port path
+     * from listPrinters(). The printer is looked up when it is opened.
+     */
+    constructor(vid?: number, pid?: number)
+    constructor(options: EscPosUSBOptions)
+    constructor(vidOrOptions?: number | EscPosUSBOptions, pid?: number) {
+        super()
+
+        const [defaultIds] = DEFAULT_PROFILE.usbIds
+
+        if (typeof vidOrOptions == 'object') {
+            const { reopen, chunkSize, writeTimeout, ...selector } = vidOrOptions
+
+            this.selector = selector
+            this.reopen = reopen ?? true
+            this.chunkSize = chunkSize ?? this.chunkSize
+            this.writeTimeout = writeTimeout ?? this.writeTimeout
+        } else {
+            this.selector = {
+                vendorId: vidOrOptions ?? defaultIds?.vendorId,
+                productId: pid ?? defaultIds?.productId,
+            }
+            this.reopen = true
+        }
+    }
+
+    /**
+     * Finds the printer, opens it and claims the first interface that has an
+     * OUT endpoint (and its IN endpoint, if it has one)
+     */
+    async open() {
+        if (this.endpoint) return
+
+        this.device ??= await findPrinter(this.selector)
 
         if (!this.device) {
-            cb(new Error(`tried to open device, but device is not set`))
-            return
+            throw new DeviceNotFoundError(`no printer attached matching ${describeSelector(this.selector)}`)
         }
 
-        this.device.open()
+        await this.claim(this.device)
+
+        this.active = true
+
+        usb.off('attach', this.onAttach)
+        usb.off('detach', this.onDetach)
+        usb.on('attach', this.onAttach)
+        usb.on('detach', this.onDetach)
+    }
+
+    private async claim(device: Device) {
+        try {
+            device.open()
+        } catch (e) {
+            throw toTransportError(e, 'open device')
+        }
 
-        if (!this.device.interfaces) {
-            cb(new Error(`selected device has no interfaces to open`))
-            return
+        if (!device.interfaces) {
+            throw new NoOutEndpointError(`selected device has no interfaces to open`)
         }
 
-        for (const iface of this.device.interfaces) {
+        const failures: unknown[] = []
+
+        for (const iface of device.interfaces) {
             try {
                 iface.claim()
 
                 const endpoint = iface.endpoints.find(x => x.direction == 'out')
 
                 if (endpoint) {
-                    this.endpoint = endpoint
-                    cb()
-                    break
+                    this.endpoint = endpoint as OutEndpoint
+                    this.inEndpoint = iface.endpoints.find(x => x.direction == 'in') as InEndpoint | undefined
+                    return
                 }
             } catch (e) {
-                cb(e)
+                failures.push(e)
             }
         }
 
-        if (!this.endpoint) {
-            cb(new Error(`couldn't find endpoint from device`))
+        throw new NoOutEndpointError(`couldn't find endpoint from device`, {
+            cause: failures.length > 0 ? new AggregateError(failures, `failed to claim interfaces`) : undefined,
+        })
+    }
+
+    private onDetach = (device: Device) => {
+        if (device != this.device) return
+
+        // the endpoints are gone with the device, so there's no stopping the poll
+        this.inEndpoint?.off('data', this.onPollData)
+        this.inEndpoint?.off('error', this.onPollError)
+
+        this.device = undefined
+        this.endpoint = undefined
+        this.inEndpoint = undefined
+
+        this.received.cancel(new DetachedError(`device was detached`))
+        this.emit('detach')
+    }
+
+    private onAttach = async (device: Device) => {
+        if (!this.active || !this.reopen || this.device) return
+        if (!isPrinter(device) || !await matches(device, this.selector)) return
+
+        // another attach may have got there while the serial number was read
+        if (this.device) return
+
+        this.device = device
+
+        try {
+            await this.claim(device)
+
+            // the printer starts up with Automatic Status Back off
+            if (this.automaticStatusBack) await this.enableAutomaticStatusBack(this.automaticStatusBack)
+
+            this.emit('attach')
+        } catch (e) {
+            if (this.listenerCount('error') > 0) this.emit('error', toTransportError(e, 'reopen device'))
         }
     }
-    
-    write(data: Buffer, callback?: Callback) {
-        const cb = callback ?? this.logError
 
+    async write(data: Uint8Array, options?: WriteOptions) {
         if (!this.endpoint) {
-            cb(new Error(`tried to write, but endpoint is not set`))
-            return
+            throw this.active
+                ? new DetachedError(`tried to write, but the device has been detached`)
+                : new NotOpenError(`tried to write, but endpoint is not set`)
         }
 
-        // @ts-ignore idk why transfer isn't set on Endpoint but it DOES exist and it works
-        this.endpoint.transfer(data, cb)
+        await writeInChunks(data, chunk => this.transfer(chunk), {
+            chunkSize: this.chunkSize,
+            writeTimeout: this.writeTimeout,
+        }, options)
     }
 
-    close(callback?: Callback) {
-        const cb = callback ?? this.logError
+    private transfer(data: Uint8Array) {
+        return new Promise<void>((resolve, reject) => {
+            if (!this.endpoint) {
+                reject(this.active
+                    ? new DetachedError(`device was detached while writing`)
+                    : new NotOpenError(`device was closed while writing`))
+                return
+            }
+
+            // lets libusb give up on the transfer too, rather than leave it pending
+            this.endpoint.timeout = this.writeTimeout
 
-        if (!this.device) {
-            cb()
-            return
+            this.endpoint.transfer(Buffer.from(data.buffer, data.byteOffset, data.byteLength), e => {
+                if (e) reject(toTransportError(e, 'write'))
+                else resolve()
+            })
+        })
+    }
+
+    /**
+     * Reads up to `length` bytes from the IN endpoint. Defaults to one packet.
+     */
+    async read(length?: number) {
+        if (!this.inEndpoint) {
+            throw new NotOpenError(`tried to read, but the device has no IN endpoint`)
         }
 
-        try {
-            this.device.close()
-            usb.removeAllListeners('detach')
+        if (this.inEndpoint.pollActive) {
+            return this.received.read(length, this.readTimeout)
+        }
 
-            cb()
-        } catch (e) {
-            cb(e)
+        const endpoint = this.inEndpoint
+        endpoint.timeout = this.readTimeout
+
+        return new Promise<Buffer>((resolve, reject) => {
+            endpoint.transfer(length ?? endpoint.descriptor.wMaxPacketSize, (e, data) => {
+                if (e) reject(toTransportError(e, 'read'))
+                else resolve(data ?? Buffer.alloc(0))
+            })
+        })
+    }
+
+    /**
+     * Asks the printer for its status with DLE EOT 1 to 4 and parses the replies
+     */
+    getStatus(): Promise<PrinterStatus> {
+        return refreshStatus(this)
+    }
+
+    /**
+     * Kicks the cash drawer and waits for its sensor to report it open, see openDrawer in drawer.ts
+     */
+    openDrawer(options?: OpenDrawerOptions) {
+        return openDrawer(this, options)
+    }
+
+    /**
+     * Turns on Automatic Status Back with GS a and keeps reading the IN endpoint
+     * in the background, emitting events whenever the status changes.
+     */
+    async enableAutomaticStatusBack(options?: AutomaticStatusBackOptions) {
+        if (!this.inEndpoint) {
+            throw new NotOpenError(`tried to enable automatic status back, but the device has no IN endpoint`)
         }
+
+        this.automaticStatusBack = options ?? DEFAULT_AUTOMATIC_STATUS_BACK
+
+        this.startPolling(this.inEndpoint)
+        await this.write(Buffer.from(setAutomaticStatusBack(options)))
+    }
+
+    /**
+     * Turns off Automatic Status Back and stops reading in the background
+     */
+    async disableAutomaticStatusBack() {
+        this.automaticStatusBack = undefined
+
+        try {
+            await this.write(Buffer.from(setAutomaticStatusBack({})))
+        } finally {
+            await this.stopPolling()
+        }
+    }
+
+    private startPolling(endpoint: InEndpoint) {
+        if (endpoint.pollActive) return
+
+        this.statusParser.reset()
+
+        endpoint.on('data', this.onPollData)
+        endpoint.on('error', this.onPollError)
+        endpoint.startPoll(1, endpoint.descriptor.wMaxPacketSize)
+    }
+
+    private stopPolling() {
+        const endpoint = this.inEndpoint
+
+        return new Promise<void>(resolve => {
+            if (!endpoint || !endpoint.pollActive) {
+                resolve()
+                return
+            }
+
+            endpoint.stopPoll(() => {
+                endpoint.off('data', this.onPollData)
+                endpoint.off('error', this.onPollError)
+                resolve()
+            })
+        })
+    }
+
+    private onPollData = (data: Buffer) => receiveData(this, this.statusParser, this.received, data)
+
+    private onPollError = (e: Error) => {
+        if (this.listenerCount('error') > 0) this.emit('error', toTransportError(e, 'read status'))
     }
 
-    logError(e: any) {
-        if (e) console.error(e)
+    async close() {
+        this.active = false
+
+        usb.off('attach', this.onAttach)
+        usb.off('detach', this.onDetach)
+
+        const device = this.device
+        if (!device) return
+
+        await this.stopPolling()
+
+        try {
+            device.close()
+        } catch (e) {
+            throw toTransportError(e, 'close device')
+        } finally {
+            // looked up again on the next open, in case it has been replugged by then
+            this.device = undefined
+            this.endpoint = undefined
+            this.inEndpoint = undefined
+        }
     }
-}
\ No newline at end of file
+}
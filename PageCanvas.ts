@@ -0,0 +1,196 @@
+import assert from 'node:assert/strict'
+
+import {
+    bold,
+    printAndReturnToStandardModeInPageMode,
+    printRasterBitImage,
+    selectCharacterSize,
+    selectFont,
+    selectPageMode,
+    selectPrintDirectionInPageMode,
+    setHorizontalAndVerticalMotionUnits,
+    setLineSpacing,
+    setPrintAreaInPageMode,
+} from './EscPosEncoder.js'
+import { charactersPerLine, pad, wrap } from './layout.js'
+import { assertSupported, DEFAULT_PROFILE, fontMetrics } from './profiles.js'
+import { encodeText } from './utils/text.js'
+
+import type { CharacterCodeTable, Font, Justification } from './EscPosEncoder.js'
+import type { PrinterProfile } from './profiles.js'
+import type { TextFallback } from './utils/text.js'
+
+/** Clockwise, in degrees. 90 reads from top to bottom, 270 from bottom to top */
+export type Rotation = 0 | 90 | 180 | 270
+
+/** ESC T for each rotation: the print direction and the corner it starts from */
+const rotationDirections: Record<Rotation, number> = {
+    0: 0, // left to right, from the upper left
+    90: 3, // top to bottom, from the upper right
+    180: 2, // right to left, from the lower right
+    270: 1, // bottom to top, from the lower left
+}
+
+export type PageCanvasOptions = {
+    /** What positions and sizes are given in. Defaults to dot */
+    unit?: 'dot' | 'mm'
+    /** The printer, for its resolution and fonts. Defaults to the TM-T88IV */
+    profile?: PrinterProfile
+    /** Resolution of the print head. Defaults to the profile's */
+    dotsPerInch?: number
+}
+
+export type PageTextOptions = {
+    /** Width of the text block, in the direction of the text. Defaults to the rest of the page */
+    width?: number
+    rotation?: Rotation
+    font?: Font
+    bold?: boolean
+    /** Character width and height multipliers, as in selectCharacterSize */
+    size?: [number, number]
+    align?: Justification
+    /** Distance from one line to the next. Defaults to 1/6" per line of character height */
+    lineSpacing?: number
+    table?: CharacterCodeTable
+    fallback?: TextFallback
+}
+
+export type PageBlockOptions = {
+    rotation?: Rotation
+}
+
+/**
+ * A page mode page that text, images and barcodes are placed on at (x, y),
+ * measured from the top left of the page, in dots or millimetres.
+ *
+ * Each block gets a print area (ESC W) of its own, with the print direction
+ * (ESC T) for its rotation, so nothing has to be worked out by hand. The
+ * motion units are set to dots for the page and restored to the defaults
+ * afterwards.
+ *
+ * ```ts
+ * const label = new PageCanvas(50, 30, { unit: 'mm' })
+ *     .text(2, 2, 'Shelf 14B', { size: [2, 2] })
+ *     .text(40, 2, 'ROTATED', { rotation: 90 })
+ *
+ * builder.page(label)
+ * ```
+ */
+export default class PageCanvas {
+    readonly width: number
+    readonly height: number
+    readonly unit: 'dot' | 'mm'
+    readonly dotsPerInch: number
+    readonly profile: PrinterProfile
+
+    private blocks: number[][] = []
+
+    constructor(width: number, height: number, options: PageCanvasOptions = {}) {
+        this.profile = options.profile ?? DEFAULT_PROFILE
+        assertSupported(this.profile, this.profile.pageMode, 'Page mode')
+
+        this.unit = options.unit ?? 'dot'
+        this.dotsPerInch = options.dotsPerInch ?? this.profile.dotsPerInch
+
+        this.width = this.dots(width)
+        this.height = this.dots(height)
+
+        assert(this.width >= 1 && this.width <= 65535, `page width must be from 1 to 65535 dots, got ${this.width}`)
+        assert(this.height >= 1 && this.height <= 65535, `page height must be from 1 to 65535 dots, got ${this.height}`)
+    }
+
+    /** Converts a distance in the canvas unit to dots */
+    dots(n: number) {
+        return Math.round(this.unit == 'mm' ? n / 25.4 * this.dotsPerInch : n)
+    }
+
+    /**
+     * Places a block of commands in an area of the page. `width` and `height`
+     * are the size of the content as it reads; the area on the page is turned
+     * with it, and (x, y) is its top left corner after turning.
+     */
+    private place(x: number, y: number, width: number, height: number, rotation: Rotation, data: number[]) {
+        const turned = rotation == 90 || rotation == 270
+        const areaWidth = turned ? height : width
+        const areaHeight = turned ? width : height
+
+        assert(x >= 0 && y >= 0 && x + areaWidth <= this.width && y + areaHeight <= this.height,
+            `a ${areaWidth} × ${areaHeight} dot block at (${x}, ${y}) doesn't fit on a ${this.width} × ${this.height} dot page`)
+
+        this.blocks.push([
+            ...selectPrintDirectionInPageMode(rotationDirections[rotation]),
+            ...setPrintAreaInPageMode(x, y, areaWidth, areaHeight),
+            ...data,
+        ])
+
+        return this
+    }
+
+    /**
+     * Places text, word-wrapped to the width of the block. The style only
+     * applies to this block.
+     */
+    text(x: number, y: number, text: string, options: PageTextOptions = {}) {
+        const { rotation = 0, font = 'A', size = [1, 1], align = 'left', table = 'pc437-usa-standard-europe', fallback } = options
+        const [widthMultiplier, heightMultiplier] = size
+
+        x = this.dots(x)
+        y = this.dots(y)
+
+        const turned = rotation == 90 || rotation == 270
+        const width = options.width != undefined ? this.dots(options.width) : turned ? this.height - y : this.width - x
+        const lineSpacing = options.lineSpacing != undefined ? this.dots(options.lineSpacing) : Math.round(this.dotsPerInch / 6) * heightMultiplier
+
+        const layout = { font, width: widthMultiplier, profile: this.profile, printWidth: width, table, fallback }
+        const columns = charactersPerLine(layout)
+        const lines = wrap(text, columns, layout).map(line => align == 'left' ? line : pad(line, columns, align, layout))
+
+        // the last line only needs room for its characters, not the spacing after them
+        const height = (lines.length - 1) * lineSpacing + fontMetrics(this.profile, font).height * heightMultiplier
+
+        return this.place(x, y, width, height, rotation, [
+            ...selectFont(font),
+            ...bold(options.bold ?? false),
+            ...selectCharacterSize(widthMultiplier, heightMultiplier),
+            ...setLineSpacing(lineSpacing),
+            ...encodeText(lines.join('\n'), table, { fallback }),
+            ...selectFont('A'),
+            ...bold(false),
+            ...selectCharacterSize(1, 1),
+        ])
+    }
+
+    /** Places a bitmap (rows of dots, 1 for black), as for printRasterBitImage */
+    image(x: number, y: number, data: number[][], options: PageBlockOptions = {}) {
+        // raster rows are sent in whole bytes
+        const width = Math.ceil((data[0]?.length ?? 0) / 8) * 8
+
+        return this.place(this.dots(x), this.dots(y), width, data.length, options.rotation ?? 0, printRasterBitImage(data))
+    }
+
+    /**
+     * Places a barcode from barcodes.ts (or any other printed commands) in a
+     * block of the given size, as it reads, in the canvas unit
+     */
+    barcode(x: number, y: number, width: number, height: number, data: number[], options: PageBlockOptions = {}) {
+        return this.place(this.dots(x), this.dots(y), this.dots(width), this.dots(height), options.rotation ?? 0, data)
+    }
+
+    /**
+     * The page mode commands for the page: ESC L, the blocks, then FF to
+     * print it and go back to Standard mode
+     */
+    toCommands() {
+        return [
+            ...selectPageMode(),
+            // dots in both directions, so areas and positions don't depend on the rotation
+            ...setHorizontalAndVerticalMotionUnits(this.dotsPerInch, this.dotsPerInch),
+            // the whole page first, which sets how much paper it takes up
+            ...selectPrintDirectionInPageMode(0),
+            ...setPrintAreaInPageMode(0, 0, this.width, this.height),
+            ...this.blocks.flat(),
+            ...printAndReturnToStandardModeInPageMode(),
+            ...setHorizontalAndVerticalMotionUnits(0, 0),
+        ]
+    }
+}
\ No newline at end of file
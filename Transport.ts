@@ -0,0 +1,40 @@
+import type { AutomaticStatusBackOptions } from './EscPosEncoder.js'
+import type { OpenDrawerOptions } from './drawer.js'
+import type { PrinterStatus } from './status.js'
+import type { WriteOptions } from './utils/chunkedWrite.js'
+
+/**
+ * The common surface of every way of talking to a printer (USB, network...).
+ *
+ * Every method settles exactly once: it resolves when the operation has
+ * completed, or rejects with one of the errors in errors.ts.
+ */
+export interface Transport {
+    open(): Promise<void>
+
+    /**
+     * Resolves once all of the data has been handed to the printer. Large
+     * writes are sent in chunks, each of which has to be accepted in time.
+     */
+    write(data: Uint8Array, options?: WriteOptions): Promise<void>
+
+    /**
+     * Resolves with the next data the printer sends (other than Automatic
+     * Status Back packets), up to `length` bytes.
+     */
+    read(length?: number): Promise<Buffer>
+
+    close(): Promise<void>
+
+    /** Asks the printer for its status with DLE EOT 1 to 4 */
+    getStatus(): Promise<PrinterStatus>
+
+    enableAutomaticStatusBack(options?: AutomaticStatusBackOptions): Promise<void>
+    disableAutomaticStatusBack(): Promise<void>
+
+    /**
+     * Kicks the cash drawer. Unless `confirm` is false, resolves once the
+     * drawer sensor reports it open and rejects with DrawerError otherwise.
+     */
+    openDrawer(options?: OpenDrawerOptions): Promise<void>
+}
@@ -0,0 +1,733 @@
+import { PNG } from 'pngjs'
+
+import { decode } from './EscPosDecoder.js'
+import { withCheckDigit } from './barcodes.js'
+import { BarcodeError } from './errors.js'
+import {
+    ean13Modules,
+    ean8Modules,
+    encodedCode128Modules,
+    upcAModules,
+} from './barcodeImages.js'
+import { encodeQrCode } from './utils/qrCode.js'
+import { getGlyph, GLYPH_HEIGHT, GLYPH_WIDTH } from './utils/font5x7.js'
+
+import type { QrCodeErrorCorrectionLevel } from './barcodes.js'
+import type { DecodedCommand, DecodedItem } from './EscPosDecoder.js'
+import type { Font, Justification, PrintPositionOfHriCharacters } from './EscPosEncoder.js'
+
+/**
+ * Cell sizes from the header of EscPosEncoder.ts. The cell width includes the
+ * 2-dot character spacing. The 5 × 7 glyphs are scaled up to roughly fill the cell.
+ */
+const fontCells: Record<Font, { width: number, height: number, scaleX: number, scaleY: number }> = {
+    A: { width: 12, height: 24, scaleX: 2, scaleY: 3 },
+    B: { width: 9, height: 17, scaleX: 1, scaleY: 2 },
+}
+
+/** Dots per inch of the print head, which is also the default horizontal motion unit */
+const DOTS_PER_INCH = 180
+
+/** Default vertical motion unit is 1/360" */
+const DEFAULT_VERTICAL_MOTION_UNIT = 360
+
+/** 1/6", in dots */
+const DEFAULT_LINE_SPACING = 30
+
+const DEFAULT_BARCODE_HEIGHT = 162
+const DEFAULT_BARCODE_MODULE_WIDTH = 3
+const DEFAULT_QR_CODE_MODULE_SIZE = 3
+
+export type VirtualPrinterOptions = {
+    /** Dots per line, 512 for the TM-T88IV */
+    width?: number
+}
+
+type PrinterState = {
+    font: Font
+    bold: boolean
+    underline: number
+    inverse: boolean
+    upsideDown: boolean
+    width: number
+    height: number
+    characterSpacing: number
+    justification: Justification
+    leftMargin: number
+    printAreaWidth: number
+    lineSpacing: number
+    horizontalMotionUnit: number
+    verticalMotionUnit: number
+    tabStops: number[]
+    barcodeHeight: number
+    barcodeModuleWidth: number
+    hriPosition: PrintPositionOfHriCharacters
+    hriFont: Font
+    qrCodeModuleSize: number
+    qrCodeErrorCorrection: QrCodeErrorCorrectionLevel
+    /** What GS ( k stored in the QR Code symbol storage area */
+    qrCodeData?: Uint8Array
+    /** What GS ( L stored in the print buffer, to be printed with Function 50 */
+    graphicsData?: { data: number[][], width: number, height: number, horizontalScale: number, verticalScale: number }
+}
+
+function defaultState(width: number): PrinterState {
+    return {
+        font: 'A',
+        bold: false,
+        underline: 0,
+        inverse: false,
+        upsideDown: false,
+        width: 1,
+        height: 1,
+        characterSpacing: 0,
+        justification: 'left',
+        leftMargin: 0,
+        printAreaWidth: width,
+        lineSpacing: DEFAULT_LINE_SPACING,
+        horizontalMotionUnit: DOTS_PER_INCH,
+        verticalMotionUnit: DEFAULT_VERTICAL_MOTION_UNIT,
+        tabStops: [8, 16, 24, 32, 40, 48, 56, 64, 72, 80, 88, 96, 104, 112, 120, 128, 136, 144, 152, 160, 168, 176, 184, 192, 200, 208, 216, 224, 232, 240, 248],
+        barcodeHeight: DEFAULT_BARCODE_HEIGHT,
+        barcodeModuleWidth: DEFAULT_BARCODE_MODULE_WIDTH,
+        hriPosition: 'none',
+        hriFont: 'A',
+        qrCodeModuleSize: DEFAULT_QR_CODE_MODULE_SIZE,
+        qrCodeErrorCorrection: 'L',
+        qrCodeData: undefined,
+        graphicsData: undefined,
+    }
+}
+
+/**
+ * A 1-bit image, 1 is a printed dot
+ */
+class Bitmap {
+    data: Uint8Array
+
+    constructor(public width: number, public height: number) {
+        this.data = new Uint8Array(width * height)
+    }
+
+    set(x: number, y: number, value: number = 1) {
+        if (x < 0 || y < 0 || x >= this.width || y >= this.height) return
+
+        this.data[y * this.width + x] = value
+    }
+
+    get(x: number, y: number) {
+        if (x < 0 || y < 0 || x >= this.width || y >= this.height) return 0
+
+        return this.data[y * this.width + x] ?? 0
+    }
+
+    fill(x: number, y: number, width: number, height: number, value: number = 1) {
+        for (let dy = 0; dy < height; dy++) {
+            for (let dx = 0; dx < width; dx++) {
+                this.set(x + dx, y + dy, value)
+            }
+        }
+    }
+
+    /** Copies the set dots of another bitmap onto this one */
+    draw(source: Bitmap, x: number, y: number) {
+        for (let sy = 0; sy < source.height; sy++) {
+            for (let sx = 0; sx < source.width; sx++) {
+                if (source.get(sx, sy)) this.set(x + sx, y + sy)
+            }
+        }
+    }
+
+    rotate180() {
+        this.data.reverse()
+    }
+}
+
+/** Something placed on the current line, drawn when the line is printed */
+type LineItem = {
+    x: number
+    bitmap: Bitmap
+}
+
+/**
+ * The bars and HRI text of the barcode systems that are modelled here, by
+ * their function A (m = 0 to 6) or function B (m = 65 to 73) number. Throws a
+ * BarcodeError for data the printer would refuse.
+ */
+function barcodeModules(system: number, data: string) {
+    switch (system) {
+        case 0:
+        case 65:
+            return { modules: upcAModules(data), hri: withCheckDigit('UPC-A', data, 11) }
+        case 2:
+        case 67:
+            return { modules: ean13Modules(data), hri: withCheckDigit('EAN-13', data, 12) }
+        case 3:
+        case 68:
+            return { modules: ean8Modules(data), hri: withCheckDigit('EAN-8', data, 7) }
+        case 73:
+            return { modules: encodedCode128Modules(data.split('').map(c => c.charCodeAt(0))), hri: code128Hri(data) }
+    }
+
+    return undefined
+}
+
+/**
+ * The text printed under a CODE128 barcode: the GS k data without the code set
+ * selections, and with the code set C values written out as two digits each
+ */
+function code128Hri(data: string) {
+    let hri = ''
+    let set = 'B'
+
+    for (let i = 0; i < data.length; i++) {
+        const code = data.charCodeAt(i)
+
+        if (data[i] == '{') {
+            const next = data[++i]
+
+            if (next == 'A' || next == 'B' || next == 'C') set = next
+            else if (next == '{') hri += '{'
+
+            continue
+        }
+
+        hri += set == 'C' ? String(code).padStart(2, '0') : data[i]
+    }
+
+    return hri
+}
+
+/**
+ * A software model of a TM-T88IV in Standard mode, which draws ESC/POS output
+ * to a bitmap so receipts can be previewed (or snapshot tested) without paper.
+ *
+ * Page mode commands, user-defined characters and code pages are not modelled.
+ * Characters outside printable ASCII are drawn as boxes.
+ */
+export default class VirtualPrinter {
+    readonly width: number
+    state: PrinterState
+
+    /** The printed paper, one Uint8Array per row of dots */
+    rows: Uint8Array[] = []
+    cuts: { y: number, partial: boolean }[] = []
+
+    /** Commands and sequences that were skipped while printing */
+    ignored: DecodedItem[] = []
+
+    /** NV and download graphics, by `memory key`. ESC @ leaves them alone */
+    storedGraphics = new Map<string, { data: number[][], width: number, height: number }>()
+
+    private y = 0
+    private x = 0
+    private line: LineItem[] = []
+
+    constructor(options: VirtualPrinterOptions = {}) {
+        this.width = options.width ?? 512
+        this.state = defaultState(this.width)
+    }
+
+    /** Prints a buffer made with EscPosEncoder.ts */
+    print(data: Uint8Array | number[]) {
+        for (const item of decode(data)) {
+            if (item.type == 'text') {
+                for (const code of item.bytes) this.character(code)
+            } else if (item.type == 'command') {
+                this.command(item)
+            } else {
+                this.ignored.push(item)
+            }
+        }
+
+        return this
+    }
+
+    /** Prints anything left in the line buffer, as the printer would when it fills up */
+    flush() {
+        if (this.line.length > 0) this.printLine(false)
+
+        return this
+    }
+
+    /** The printed paper as a bitmap */
+    toBitmap() {
+        this.flush()
+
+        const height = Math.max(this.y, this.rows.length)
+        const bitmap = new Bitmap(this.width, height)
+
+        this.rows.forEach((row, y) => bitmap.data.set(row, y * this.width))
+
+        return bitmap
+    }
+
+    /** The printed paper as a PNG, with cuts marked as red dashed lines */
+    toPNG() {
+        const bitmap = this.toBitmap()
+        const png = new PNG({ width: bitmap.width, height: Math.max(bitmap.height, 1) })
+
+        for (let i = 0; i < bitmap.width * png.height; i++) {
+            const value = bitmap.data[i] ? 0 : 255
+
+            png.data[i * 4] = value
+            png.data[i * 4 + 1] = value
+            png.data[i * 4 + 2] = value
+            png.data[i * 4 + 3] = 255
+        }
+
+        for (const cut of this.cuts) {
+            const y = Math.min(cut.y, png.height - 1)
+            const dash = cut.partial ? 4 : 12
+
+            for (let x = 0; x < png.width; x++) {
+                if (Math.floor(x / dash) % 2 == 1) continue
+
+                const i = (y * png.width + x) * 4
+                png.data[i] = 255
+                png.data[i + 1] = 0
+                png.data[i + 2] = 0
+            }
+        }
+
+        return PNG.sync.write(png)
+    }
+
+    private horizontalDots(units: number) {
+        return Math.round(units * DOTS_PER_INCH / this.state.horizontalMotionUnit)
+    }
+
+    private verticalDots(units: number) {
+        return Math.round(units * DOTS_PER_INCH / this.state.verticalMotionUnit)
+    }
+
+    private get areaWidth() {
+        return Math.max(0, Math.min(this.state.printAreaWidth, this.width - this.state.leftMargin))
+    }
+
+    private characterWidth() {
+        const cell = fontCells[this.state.font]
+
+        return (cell.width + this.horizontalDots(this.state.characterSpacing)) * this.state.width
+    }
+
+    private character(code: number) {
+        const { font, width, height, bold, underline, inverse } = this.state
+        const cell = fontCells[font]
+
+        const cellWidth = this.characterWidth()
+        const cellHeight = cell.height * height
+
+        if (this.x + cellWidth > this.areaWidth && this.line.length > 0) {
+            this.printLine(false)
+        }
+
+        const bitmap = new Bitmap(cellWidth, cellHeight)
+
+        if (inverse) bitmap.fill(0, 0, cellWidth, cellHeight)
+
+        const glyph = getGlyph(code)
+        const scaleX = cell.scaleX * width
+        const scaleY = cell.scaleY * height
+
+        for (let gx = 0; gx < GLYPH_WIDTH; gx++) {
+            const column = glyph[gx] ?? 0
+
+            for (let gy = 0; gy < GLYPH_HEIGHT; gy++) {
+                if (!((column >> gy) & 1)) continue
+
+                const x = (gx * scaleX) + width
+                const y = (gy * scaleY) + height
+
+                bitmap.fill(x, y, scaleX + (bold ? 1 : 0), scaleY, inverse ? 0 : 1)
+            }
+        }
+
+        if (underline && !inverse) {
+            bitmap.fill(0, cellHeight - underline, cellWidth, underline)
+        }
+
+        this.line.push({ x: this.x, bitmap })
+        this.x += cellWidth
+    }
+
+    private ensureRows(height: number) {
+        while (this.rows.length < height) {
+            this.rows.push(new Uint8Array(this.width))
+        }
+    }
+
+    /** Copies a bitmap onto the paper at the current position, justified in the print area */
+    private place(bitmap: Bitmap, contentWidth: number, y: number) {
+        const area = this.areaWidth
+
+        let offset = 0
+        if (this.state.justification == 'centered') offset = Math.floor((area - contentWidth) / 2)
+        if (this.state.justification == 'right') offset = area - contentWidth
+
+        const left = this.state.leftMargin + Math.max(0, offset)
+
+        this.ensureRows(y + bitmap.height)
+
+        for (let by = 0; by < bitmap.height; by++) {
+            const row = this.rows[y + by]!
+
+            for (let bx = 0; bx < bitmap.width; bx++) {
+                const x = left + bx
+                if (x >= this.width || x >= this.state.leftMargin + area) break
+
+                if (bitmap.get(bx, by)) row[x] = 1
+            }
+        }
+    }
+
+    /**
+     * Prints the line buffer. When feed is true the paper is moved by the line
+     * spacing, otherwise only by the height of the line.
+     */
+    private printLine(feed: boolean) {
+        const lineHeight = Math.max(0, ...this.line.map(item => item.bitmap.height))
+        const contentWidth = Math.max(0, ...this.line.map(item => item.x + item.bitmap.width))
+
+        if (this.line.length > 0) {
+            const bitmap = new Bitmap(contentWidth, lineHeight)
+
+            for (const item of this.line) {
+                // characters are aligned at the baseline
+                bitmap.draw(item.bitmap, item.x, lineHeight - item.bitmap.height)
+            }
+
+            if (this.state.upsideDown) bitmap.rotate180()
+
+            this.place(bitmap, contentWidth, this.y)
+        }
+
+        this.y += feed ? Math.max(lineHeight, this.state.lineSpacing) : lineHeight
+        this.ensureRows(this.y)
+
+        this.line = []
+        this.x = 0
+    }
+
+    /** Prints something that takes up whole lines on its own, such as an image or barcode */
+    private printBlock(bitmap: Bitmap) {
+        this.flush()
+
+        this.place(bitmap, bitmap.width, this.y)
+        this.y += bitmap.height
+        this.ensureRows(this.y)
+    }
+
+    private feed(dots: number) {
+        if (this.line.length > 0) {
+            const y = this.y
+            this.printLine(false)
+            this.y = Math.max(this.y, y + dots)
+        } else {
+            this.y += dots
+        }
+
+        this.ensureRows(this.y)
+    }
+
+    private text(s: string, font: Font) {
+        const cell = fontCells[font]
+        const bitmap = new Bitmap(cell.width * s.length, cell.height)
+
+        for (let i = 0; i < s.length; i++) {
+            const glyph = getGlyph(s.charCodeAt(i))
+
+            for (let gx = 0; gx < GLYPH_WIDTH; gx++) {
+                for (let gy = 0; gy < GLYPH_HEIGHT; gy++) {
+                    if (!(((glyph[gx] ?? 0) >> gy) & 1)) continue
+
+                    bitmap.fill(i * cell.width + gx * cell.scaleX + 1, gy * cell.scaleY + 1, cell.scaleX, cell.scaleY)
+                }
+            }
+        }
+
+        return bitmap
+    }
+
+    private barcode(system: number, data: string) {
+        const { barcodeHeight, barcodeModuleWidth, hriPosition, hriFont } = this.state
+
+        // symbologies without a model here are drawn as a solid box the size of a short barcode
+        const { modules, hri } = barcodeModules(system, data)
+            ?? { modules: new Array<number>(data.length * 11).fill(1), hri: data }
+
+        const hriBitmap = this.text(hri, hriFont)
+        const barsWidth = modules.length * barcodeModuleWidth
+
+        const above = hriPosition == 'above' || hriPosition == 'both'
+        const below = hriPosition == 'below' || hriPosition == 'both'
+
+        const height = barcodeHeight + (above ? hriBitmap.height : 0) + (below ? hriBitmap.height : 0)
+        const width = Math.max(barsWidth, hriBitmap.width)
+
+        const bitmap = new Bitmap(width, height)
+        const barsX = Math.floor((width - barsWidth) / 2)
+        const barsY = above ? hriBitmap.height : 0
+        const hriX = Math.floor((width - hriBitmap.width) / 2)
+
+        for (let i = 0; i < modules.length; i++) {
+            if (modules[i]) bitmap.fill(barsX + i * barcodeModuleWidth, barsY, barcodeModuleWidth, barcodeHeight)
+        }
+
+        if (above) bitmap.draw(hriBitmap, hriX, 0)
+        if (below) bitmap.draw(hriBitmap, hriX, barsY + barcodeHeight)
+
+        this.printBlock(bitmap)
+    }
+
+    private qrCode() {
+        const { qrCodeData, qrCodeModuleSize, qrCodeErrorCorrection } = this.state
+
+        // the printer prints nothing when there is no data stored
+        if (!qrCodeData) return
+
+        const modules = encodeQrCode(qrCodeData, qrCodeErrorCorrection)
+        const bitmap = new Bitmap(modules.length * qrCodeModuleSize, modules.length * qrCodeModuleSize)
+
+        modules.forEach((row, y) => row.forEach((dark, x) => {
+            if (dark) bitmap.fill(x * qrCodeModuleSize, y * qrCodeModuleSize, qrCodeModuleSize, qrCodeModuleSize)
+        }))
+
+        this.printBlock(bitmap)
+    }
+
+    private rasterImage(data: number[][], width: number, height: number, verticalScale: number, horizontalScale: number) {
+        const bitmap = new Bitmap(width * horizontalScale, height * verticalScale)
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (data[y]?.[x]) bitmap.fill(x * horizontalScale, y * verticalScale, horizontalScale, verticalScale)
+            }
+        }
+
+        this.printBlock(bitmap)
+    }
+
+    /** ESC * prints a band of columns in the line, 8 or 24 dots tall */
+    private bitImage(verticalDensity: number, horizontalDensity: string, data: number[]) {
+        const bytesPerColumn = verticalDensity == 8 ? 1 : 3
+        const columns = data.length / bytesPerColumn
+
+        const dotWidth = horizontalDensity == 'single' ? 2 : 1
+        const dotHeight = verticalDensity == 8 ? 3 : 1
+
+        const bitmap = new Bitmap(columns * dotWidth, verticalDensity * dotHeight)
+
+        for (let column = 0; column < columns; column++) {
+            for (let b = 0; b < bytesPerColumn; b++) {
+                const byte = data[column * bytesPerColumn + b] ?? 0
+
+                for (let bit = 0; bit < 8; bit++) {
+                    if (!((byte >> (7 - bit)) & 1)) continue
+
+                    bitmap.fill(column * dotWidth, (b * 8 + bit) * dotHeight, dotWidth, dotHeight)
+                }
+            }
+        }
+
+        this.line.push({ x: this.x, bitmap })
+        this.x += bitmap.width
+    }
+
+    private command(item: DecodedCommand) {
+        const state = this.state
+        const { name, args: a } = item
+
+        switch (name) {
+            case 'initialise':
+                this.flush()
+                this.state = defaultState(this.width)
+                break
+            case 'printAndLineFeed':
+                this.printLine(true)
+                break
+            case 'printAndFeedLines':
+                this.printLine(true)
+                this.feed(state.lineSpacing * (a.n - 1))
+                break
+            case 'printAndFeedPaper':
+                this.feed(this.verticalDots(a.n))
+                break
+            case 'horizontalTab': {
+                const characterWidth = this.characterWidth()
+                const stop = state.tabStops
+                    .map(n => n * characterWidth)
+                    .find(x => x > this.x)
+
+                if (stop != undefined) this.x = Math.min(stop, this.areaWidth)
+                break
+            }
+            case 'setHorizontalTabPositions':
+                state.tabStops = a.tabStops
+                break
+            case 'setAbsolutePrintPosition':
+                this.x = this.horizontalDots(a.value)
+                break
+            case 'setRelativePrintPosition':
+                this.x = Math.max(0, this.x + this.horizontalDots(a.d))
+                break
+            case 'setRightSideCharacterSpacing':
+                state.characterSpacing = a.n
+                break
+            case 'selectPrintModes':
+                state.font = a.font == 'B' ? 'B' : 'A'
+                state.bold = a.emphasised
+                state.height = a.doubleHeight ? 2 : 1
+                state.width = a.doubleWidth ? 2 : 1
+                state.underline = a.underline ? 1 : 0
+                break
+            case 'underline':
+                state.underline = a.enable ? a.thickness : 0
+                break
+            case 'bold':
+            case 'doubleStrike':
+                state.bold = a.enable
+                break
+            case 'selectFont':
+                state.font = a.font == 'B' ? 'B' : 'A'
+                break
+            case 'selectCharacterSize':
+                state.width = a.width
+                state.height = a.height
+                break
+            case 'inverse':
+                state.inverse = a.enable
+                break
+            case 'setUpsideDown':
+                state.upsideDown = a.enable
+                break
+            case 'selectJustification':
+                if (typeof a.justification == 'string') state.justification = a.justification
+                else this.ignored.push(item)
+                break
+            case 'selectDefaultLineSpacing':
+                state.lineSpacing = DEFAULT_LINE_SPACING
+                break
+            case 'setLineSpacing':
+                state.lineSpacing = this.verticalDots(a.units)
+                break
+            case 'setLeftMargin':
+                state.leftMargin = this.horizontalDots(a.n)
+                break
+            case 'setPrintAreaWidth':
+                state.printAreaWidth = this.horizontalDots(a.width)
+                break
+            case 'setHorizontalAndVerticalMotionUnits':
+                state.horizontalMotionUnit = a.x || DOTS_PER_INCH
+                state.verticalMotionUnit = a.y || DEFAULT_VERTICAL_MOTION_UNIT
+                break
+            case 'setBarcodeHeight':
+                state.barcodeHeight = a.n
+                break
+            case 'setBarcodeWidth':
+                state.barcodeModuleWidth = a.n
+                break
+            case 'selectPrintPositionOfBarcodeHriCharacters':
+                if (typeof a.position == 'string') state.hriPosition = a.position
+                else this.ignored.push(item)
+                break
+            case 'selectFontForBarcodeHriCharacters':
+                state.hriFont = a.font == 'B' ? 'B' : 'A'
+                break
+            case 'printBarcodeUpcA':
+            case 'printBarcodeUpcE':
+            case 'printBarcodeEan13':
+            case 'printBarcodeEan8':
+            case 'printBarcodeCode39':
+            case 'printBarcodeItf':
+            case 'printBarcodeCodabar':
+            case 'printBarcodeCode93':
+            case 'printBarcodeCode128':
+            case 'printBarcode':
+                try {
+                    this.barcode(a.system, a.data)
+                } catch (e) {
+                    if (!(e instanceof BarcodeError)) throw e
+
+                    // the printer skips barcodes with invalid data
+                    this.ignored.push(item)
+                }
+                break
+            case 'selectQrCodeModel':
+                // only model 2 is modelled
+                if (a.parameters[0] != 50) this.ignored.push(item)
+                break
+            case 'setQrCodeModuleSize':
+                state.qrCodeModuleSize = a.parameters[0] ?? DEFAULT_QR_CODE_MODULE_SIZE
+                break
+            case 'selectQrCodeErrorCorrectionLevel':
+                state.qrCodeErrorCorrection = (['L', 'M', 'Q', 'H'] as const)[(a.parameters[0] ?? 0) - 48] ?? 'L'
+                break
+            case 'storeQrCodeData':
+                state.qrCodeData = Uint8Array.from(a.parameters.slice(1))
+                break
+            case 'printQrCodeSymbolData':
+                try {
+                    this.qrCode()
+                } catch (e) {
+                    if (!(e instanceof BarcodeError)) throw e
+
+                    // more data than a symbol holds
+                    this.ignored.push(item)
+                }
+                break
+            case 'printRasterBitImage':
+                this.rasterImage(a.data, a.width, a.height, a.verticalScale, a.horizontalScale)
+                break
+            case 'storeRasterGraphicsData':
+            case 'storeColumnGraphicsData':
+                state.graphicsData = {
+                    data: a.data,
+                    width: a.width,
+                    height: a.height,
+                    horizontalScale: a.horizontalScale,
+                    verticalScale: a.verticalScale,
+                }
+                break
+            case 'defineGraphics':
+                this.storedGraphics.set(`${a.memory} ${a.key}`, { data: a.data, width: a.width, height: a.height })
+                break
+            case 'deleteGraphics':
+                this.storedGraphics.delete(`${a.memory} ${a.key}`)
+                break
+            case 'deleteAllGraphics': {
+                const memory = a.fn == 65 ? 'nv' : 'download'
+
+                for (const key of this.storedGraphics.keys()) {
+                    if (key.startsWith(`${memory} `)) this.storedGraphics.delete(key)
+                }
+                break
+            }
+            case 'printStoredGraphics': {
+                const graphics = this.storedGraphics.get(`${a.memory} ${a.key}`)
+
+                if (graphics) this.rasterImage(graphics.data, graphics.width, graphics.height, a.parameters[3] ?? 1, a.parameters[2] ?? 1)
+                else this.ignored.push(item)
+                break
+            }
+            case 'printGraphicsData':
+                if (state.graphicsData) {
+                    const { data, width, height, verticalScale, horizontalScale } = state.graphicsData
+
+                    this.rasterImage(data, width, height, verticalScale, horizontalScale)
+                    state.graphicsData = undefined
+                }
+                break
+            case 'selectBitImageMode':
+                this.bitImage(a.verticalDensity, a.horizontalDensity, a.data)
+                break
+            case 'cut':
+                this.flush()
+                this.feed(this.verticalDots(a.feedVertical))
+                this.cuts.push({ y: this.y, partial: a.mode == 'partial' })
+                break
+            default:
+                this.ignored.push(item)
+        }
+    }
+}
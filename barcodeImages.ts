@@ -0,0 +1,225 @@
+import { BarcodeError } from './errors.js'
+import { encodeCode128, withCheckDigit } from './barcodes.js'
+import { encodeQrCode } from './utils/qrCode.js'
+
+import type { Code128CodeSet, QrCodeErrorCorrectionLevel } from './barcodes.js'
+
+/*
+Barcodes drawn in software, for printers whose firmware doesn't have a symbology
+(or prints it badly). The images are rows of 0/1 dots that go straight into
+printRasterBitImage.
+*/
+
+export type QrCodeImageOptions = {
+    errorCorrection?: QrCodeErrorCorrectionLevel
+    /** Size of a module, in dots */
+    moduleSize?: number
+    /** Width of the light margin around the symbol, in modules. Scanners expect 4 */
+    quietZone?: number
+}
+
+export type LinearBarcodeImageOptions = {
+    /** Width of the narrowest bar, in dots */
+    moduleWidth?: number
+    /** Height of the bars, in dots */
+    height?: number
+    /** Width of the light margin on either side, in modules. Scanners expect 10 */
+    quietZone?: number
+}
+
+function assertSize(name: string, n: number, min: number) {
+    if (!Number.isInteger(n) || n < min) throw new BarcodeError(`${name} must be a whole number of at least ${min}, got ${n}`)
+}
+
+/**
+ * Draws a QR Code (Model 2, byte mode) as a bitmap. Strings are encoded as UTF-8.
+ */
+export function qrCodeImage(data: string | Uint8Array, options: QrCodeImageOptions = {}) {
+    const { errorCorrection = 'M', moduleSize = 4, quietZone = 4 } = options
+
+    assertSize('QR Code module size', moduleSize, 1)
+    assertSize('QR Code quiet zone', quietZone, 0)
+
+    const bytes = typeof data == 'string' ? new TextEncoder().encode(data) : data
+    const modules = encodeQrCode(bytes, errorCorrection)
+    const size = (modules.length + quietZone * 2) * moduleSize
+
+    const image: number[][] = []
+
+    for (let y = 0; y < size; y++) {
+        const row: number[] = []
+        const moduleY = Math.floor(y / moduleSize) - quietZone
+
+        for (let x = 0; x < size; x++) {
+            const moduleX = Math.floor(x / moduleSize) - quietZone
+
+            row.push(modules[moduleY]?.[moduleX] ?? 0)
+        }
+
+        image.push(row)
+    }
+
+    return image
+}
+
+/** Bar and space widths of the CODE128 symbol characters, by value. 103 to 105 are the start characters */
+const code128Patterns = [
+    '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+    '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+    '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+    '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+    '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+    '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+    '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+    '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+    '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+    '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+    '114131', '311141', '411131', '211412', '211214', '211232',
+]
+
+const CODE128_STOP = '2331112'
+
+const code128StartValues: Record<Code128CodeSet, number> = { A: 103, B: 104, C: 105 }
+const code128SwitchValues: Record<Code128CodeSet, number> = { A: 101, B: 100, C: 99 }
+
+/**
+ * Turns GS k CODE128 data (as made by encodeCode128) into symbol character
+ * values, starting with the start character
+ */
+function code128Values(bytes: number[]) {
+    const values: number[] = []
+    let set: Code128CodeSet | undefined = undefined
+
+    for (let i = 0; i < bytes.length; i++) {
+        const byte = bytes[i]!
+
+        // set C values only go up to 99, so { is always an escape
+        if (byte == 0x7b) {
+            const next = String.fromCharCode(bytes[++i] ?? 0)
+
+            switch (next) {
+                case 'A':
+                case 'B':
+                case 'C':
+                    values.push(set ? code128SwitchValues[next] : code128StartValues[next])
+                    set = next
+                    break
+                case 'S': values.push(98); break
+                case '1': values.push(102); break
+                case '2': values.push(97); break
+                case '3': values.push(96); break
+                case '4': values.push(set == 'A' ? 101 : 100); break
+                case '{': values.push(0x7b - 32); break
+                default: throw new BarcodeError(`unknown CODE128 escape {${next}`)
+            }
+
+            continue
+        }
+
+        if (!set) throw new BarcodeError(`CODE128 data has to start with a code set selection`)
+
+        // A and B only differ in what they have beyond 0x5f and below 0x20, so one formula covers both
+        values.push(set == 'C' ? byte : byte < 0x20 ? byte + 64 : byte - 32)
+    }
+
+    return values
+}
+
+function widthsToModules(widths: string) {
+    const modules: number[] = []
+
+    for (let i = 0; i < widths.length; i++) {
+        // bars and spaces alternate, starting with a bar
+        for (let j = 0; j < Number(widths[i]); j++) modules.push(i % 2 == 0 ? 1 : 0)
+    }
+
+    return modules
+}
+
+/**
+ * The modules (1 for a bar) of CODE128 from GS k CODE128 data, with the check
+ * and stop characters the printer would add
+ */
+export function encodedCode128Modules(bytes: number[]) {
+    const values = code128Values(bytes)
+    const checksum = values.reduce((sum, value, i) => sum + value * Math.max(i, 1), 0) % 103
+
+    return [...values, checksum]
+        .flatMap(value => widthsToModules(code128Patterns[value]!))
+        .concat(widthsToModules(CODE128_STOP))
+}
+
+/** The modules (1 for a bar) of a CODE128 barcode. The code sets are picked like in printBarcodeCode128 */
+export function code128Modules(data: string, codeSet: Code128CodeSet | 'auto' = 'auto') {
+    return encodedCode128Modules(encodeCode128(data, codeSet))
+}
+
+/** EAN left-hand odd parity (L) digit patterns. R is their complement, G is R reversed */
+const eanLeftPatterns = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011']
+
+/** Which of the left-hand digits of an EAN-13 use G, by the first digit, which has no bars of its own */
+const ean13Parities = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL']
+
+function eanDigitModules(digit: string, set: string) {
+    const left = eanLeftPatterns[Number(digit)]!
+    const right = left.split('').map(x => x == '1' ? '0' : '1').join('')
+
+    const pattern = set == 'L' ? left : set == 'R' ? right : right.split('').reverse().join('')
+
+    return pattern.split('').map(Number)
+}
+
+function eanModules(left: string, leftSets: string, right: string) {
+    return [
+        1, 0, 1,
+        ...left.split('').flatMap((digit, i) => eanDigitModules(digit, leftSets[i]!)),
+        0, 1, 0, 1, 0,
+        ...right.split('').flatMap(digit => eanDigitModules(digit, 'R')),
+        1, 0, 1,
+    ]
+}
+
+/** The modules (1 for a bar) of an EAN-13 barcode, from 12 digits or 13 with the check digit */
+export function ean13Modules(data: string) {
+    const digits = withCheckDigit('EAN-13', data, 12)
+
+    return eanModules(digits.slice(1, 7), ean13Parities[Number(digits[0])]!, digits.slice(7))
+}
+
+/** The modules (1 for a bar) of an EAN-8 barcode, from 7 digits or 8 with the check digit */
+export function ean8Modules(data: string) {
+    const digits = withCheckDigit('EAN-8', data, 7)
+
+    return eanModules(digits.slice(0, 4), 'LLLL', digits.slice(4))
+}
+
+/** The modules (1 for a bar) of a UPC-A barcode, which is an EAN-13 starting with 0 */
+export function upcAModules(data: string) {
+    return ean13Modules('0' + withCheckDigit('UPC-A', data, 11))
+}
+
+/**
+ * Draws the modules of a linear barcode as a bitmap, with a quiet zone on either side
+ */
+export function linearBarcodeImage(modules: number[], options: LinearBarcodeImageOptions = {}) {
+    const { moduleWidth = 2, height = 80, quietZone = 10 } = options
+
+    assertSize('barcode module width', moduleWidth, 1)
+    assertSize('barcode height', height, 1)
+    assertSize('barcode quiet zone', quietZone, 0)
+
+    const quiet = new Array<number>(quietZone * moduleWidth).fill(0)
+    const row = [...quiet, ...modules.flatMap(x => new Array<number>(moduleWidth).fill(x)), ...quiet]
+
+    return Array.from({ length: height }, () => [...row])
+}
+
+/** Draws a CODE128 barcode as a bitmap */
+export function code128Image(data: string, options: LinearBarcodeImageOptions & { codeSet?: Code128CodeSet | 'auto' } = {}) {
+    return linearBarcodeImage(code128Modules(data, options.codeSet), options)
+}
+
+/** Draws an EAN-13 barcode as a bitmap */
+export function ean13Image(data: string, options: LinearBarcodeImageOptions = {}) {
+    return linearBarcodeImage(ean13Modules(data), options)
+}
\ No newline at end of file
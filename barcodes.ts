@@ -1,4 +1,4 @@
-import assert from 'node:assert/strict'
+import { BarcodeError } from './errors.js'
 
 const GS = 0x1d
 const k = 0x6b
@@ -7,17 +7,705 @@ function splitToCharCodes(s: string) {
     return s.split('').map(c => c.charCodeAt(0))
 }
 
+function assertDigits(name: string, data: string, lengths: number[]) {
+    if (!/^[0-9]*$/.test(data)) {
+        throw new BarcodeError(`${name} data can only contain digits, got "${data}"`)
+    }
+
+    if (!lengths.includes(data.length)) {
+        throw new BarcodeError(`${name} data must be ${lengths.join(' or ')} digits long, got ${data.length}`)
+    }
+}
+
+/**
+ * The modulo 10 check digit used by UPC, EAN and ITF: digits are weighted 3
+ * and 1 alternately, starting with 3 at the rightmost digit.
+ */
+export function mod10CheckDigit(digits: string) {
+    let sum = 0
+
+    for (let i = 0; i < digits.length; i++) {
+        const weight = (digits.length - i) % 2 == 1 ? 3 : 1
+        sum += Number(digits[i]) * weight
+    }
+
+    return String((10 - (sum % 10)) % 10)
+}
+
+/**
+ * Appends the check digit to `length` digits of data, or checks the one that
+ * is already there if the data is one digit longer
+ */
+export function withCheckDigit(name: string, data: string, length: number) {
+    assertDigits(name, data, [length, length + 1])
+
+    const body = data.slice(0, length)
+    const checkDigit = mod10CheckDigit(body)
+
+    if (data.length > length && data[length] != checkDigit) {
+        throw new BarcodeError(`${name} check digit of "${data}" should be ${checkDigit}`)
+    }
+
+    return body + checkDigit
+}
+
+function functionB(m: number, data: number[], name: string, min: number, max: number) {
+    if (data.length < min || data.length > max) {
+        throw new BarcodeError(`${name} data must be ${min} to ${max} characters long, got ${data.length}`)
+    }
+
+    return [GS, k, m, data.length, ...data]
+}
+
 /** Prints a UPC-A Barcode
- * 
+ *
+ * Takes 11 digits, or 12 if the check digit is included, in which case it is verified.
  * Modular check character is added automatically.
  * Left guard bar/center bar/right guard bar are added automatically.
  * */
 export function printBarcodeUpcA(data: string) {
-    assert(data.length == 11)
+    const digits = withCheckDigit('UPC-A', data, 11)
+
+    return functionB(65, splitToCharCodes(digits), 'UPC-A', 12, 12)
+}
+
+/**
+ * Expands the 6 digits of a zero-suppressed UPC-E code back to the 10 digits
+ * of UPC-A data after the number system, which is what the check digit is
+ * calculated from
+ */
+export function expandUpcE(digits: string) {
+    const [d1, d2, d3, d4, d5, d6] = digits.split('')
+
+    switch (d6) {
+        case '0':
+        case '1':
+        case '2':
+            return `${d1}${d2}${d6}0000${d3}${d4}${d5}`
+        case '3':
+            return `${d1}${d2}${d3}00000${d4}${d5}`
+        case '4':
+            return `${d1}${d2}${d3}${d4}00000${d5}`
+        default:
+            return `${d1}${d2}${d3}${d4}${d5}0000${d6}`
+    }
+}
+
+/** Prints a UPC-E Barcode
+ *
+ * Takes the 6 digits of the compressed code, optionally preceded by the number system (which
+ * has to be 0 on TM printers) and followed by the check digit, which is verified.
+ * Modular check character is added automatically.
+ * */
+export function printBarcodeUpcE(data: string) {
+    assertDigits('UPC-E', data, [6, 7, 8])
+
+    const full = data.length == 6 ? '0' + data : data
+
+    if (full[0] != '0') {
+        throw new BarcodeError(`UPC-E number system must be 0, got ${full[0]}`)
+    }
+
+    const checkDigit = mod10CheckDigit('0' + expandUpcE(full.slice(1, 7)))
+
+    if (full.length == 8 && full[7] != checkDigit) {
+        throw new BarcodeError(`UPC-E check digit of "${data}" should be ${checkDigit}`)
+    }
+
+    return functionB(66, splitToCharCodes(full.slice(0, 7) + checkDigit), 'UPC-E', 8, 8)
+}
+
+/** Prints an EAN-13 (JAN-13) Barcode
+ *
+ * Takes 12 digits, or 13 if the check digit is included, in which case it is verified.
+ * Modular check character is added automatically.
+ * */
+export function printBarcodeEan13(data: string) {
+    const digits = withCheckDigit('EAN-13', data, 12)
+
+    return functionB(67, splitToCharCodes(digits), 'EAN-13', 13, 13)
+}
+
+/** Prints an EAN-8 (JAN-8) Barcode
+ *
+ * Takes 7 digits, or 8 if the check digit is included, in which case it is verified.
+ * Modular check character is added automatically.
+ * */
+export function printBarcodeEan8(data: string) {
+    const digits = withCheckDigit('EAN-8', data, 7)
+
+    return functionB(68, splitToCharCodes(digits), 'EAN-8', 8, 8)
+}
+
+const code39Characters = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%'
+
+/** Prints a CODE39 Barcode
+ *
+ * Takes digits, upper case letters, space and - . $ / + %.
+ * The start/stop character * is added automatically.
+ * The modulo 43 check character is optional in CODE39 and is only added when `checkDigit` is set.
+ * */
+export function printBarcodeCode39(data: string, checkDigit: boolean = false) {
+    let sum = 0
+
+    for (const c of data) {
+        const value = code39Characters.indexOf(c)
+
+        if (value < 0) throw new BarcodeError(`CODE39 can't encode "${c}" in "${data}"`)
+
+        sum += value
+    }
+
+    const body = checkDigit ? data + code39Characters[sum % 43] : data
+
+    return functionB(69, splitToCharCodes(`*${body}*`), 'CODE39', 3, 255)
+}
+
+/** Prints an ITF (Interleaved 2 of 5) Barcode
+ *
+ * Takes an even number of digits, as the digits are encoded in pairs.
+ * With `checkDigit`, a modulo 10 check digit is appended, so the data has to have an odd number of digits.
+ * */
+export function printBarcodeItf(data: string, checkDigit: boolean = false) {
+    if (!/^[0-9]*$/.test(data)) {
+        throw new BarcodeError(`ITF data can only contain digits, got "${data}"`)
+    }
+
+    const digits = checkDigit ? data + mod10CheckDigit(data) : data
+
+    if (digits.length % 2 != 0) {
+        throw new BarcodeError(checkDigit
+            ? `ITF data with a check digit must have an odd number of digits, got ${data.length}`
+            : `ITF data must have an even number of digits, got ${data.length}`)
+    }
+
+    return functionB(70, splitToCharCodes(digits), 'ITF', 2, 254)
+}
+
+/** Prints a CODABAR (NW-7) Barcode
+ *
+ * Takes digits and - $ : / . +, between start and stop characters A to D.
+ * If the data has no start and stop characters, A is used for both.
+ * */
+export function printBarcodeCodabar(data: string) {
+    const hasStartStop = /^[A-Da-d].*[A-Da-d]$/.test(data)
+    const full = hasStartStop ? data : `A${data}A`
+    const body = full.slice(1, -1)
+
+    if (!/^[0-9\-$:/.+]*$/.test(body)) {
+        throw new BarcodeError(`CODABAR can only encode digits and - $ : / . + between the start and stop characters, got "${data}"`)
+    }
+
+    return functionB(71, splitToCharCodes(full), 'CODABAR', 3, 255)
+}
+
+function assertAscii(name: string, data: string) {
+    for (const c of data) {
+        if (c.charCodeAt(0) > 0x7f) throw new BarcodeError(`${name} can only encode ASCII, got "${c}" in "${data}"`)
+    }
+}
+
+/** Prints a CODE93 Barcode
+ *
+ * Takes any ASCII characters.
+ * The two check characters and the start/stop characters are added automatically.
+ * */
+export function printBarcodeCode93(data: string) {
+    assertAscii('CODE93', data)
+
+    return functionB(72, splitToCharCodes(data), 'CODE93', 1, 255)
+}
+
+export type Code128CodeSet = 'A' | 'B' | 'C'
+
+/** `{` escapes the code set selection and special characters in GS k CODE128 data */
+const CODE128_ESCAPE = 0x7b
+
+function isInCodeSet(set: Code128CodeSet, code: number) {
+    switch (set) {
+        case 'A': return code <= 0x5f
+        case 'B': return code >= 0x20 && code <= 0x7f
+        case 'C': return code >= 0x30 && code <= 0x39
+    }
+}
+
+/** The bytes for one character in code set A or B */
+function code128Character(code: number) {
+    return code == CODE128_ESCAPE ? [CODE128_ESCAPE, CODE128_ESCAPE] : [code]
+}
+
+/**
+ * Encodes all of the data in one code set, the way it was asked for
+ */
+function encodeCode128InSet(codes: number[], set: Code128CodeSet) {
+    const bytes = [CODE128_ESCAPE, set.charCodeAt(0)]
+
+    if (set == 'C') {
+        if (codes.length % 2 != 0 || !codes.every(x => isInCodeSet('C', x))) {
+            throw new BarcodeError(`CODE128 code set C can only encode an even number of digits`)
+        }
+
+        for (let i = 0; i < codes.length; i += 2) {
+            bytes.push((codes[i]! - 0x30) * 10 + codes[i + 1]! - 0x30)
+        }
+
+        return bytes
+    }
+
+    for (const code of codes) {
+        if (!isInCodeSet(set, code)) {
+            throw new BarcodeError(`CODE128 code set ${set} can't encode character ${code}`)
+        }
+
+        bytes.push(...code128Character(code))
+    }
+
+    return bytes
+}
+
+type Code128Step =
+    | { type: 'character', set: Code128CodeSet }
+    | { type: 'shift', set: Code128CodeSet }
+    | { type: 'switch', to: Code128CodeSet }
+
+/**
+ * Picks the code sets that give the fewest symbol characters, and so the
+ * narrowest barcode. Switching sets costs a symbol character, a shift costs
+ * one for a single character from the other of A and B, and C packs two digits
+ * into each symbol character.
+ */
+function encodeCode128Shortest(codes: number[]) {
+    const sets: Code128CodeSet[] = ['A', 'B', 'C']
+
+    // cost[i][set] is the number of symbol characters needed for codes[i..] when starting in set
+    const cost: Record<Code128CodeSet, number>[] = []
+    const step: Record<Code128CodeSet, Code128Step | undefined>[] = []
+
+    cost[codes.length] = { A: 0, B: 0, C: 0 }
+    step[codes.length] = { A: undefined, B: undefined, C: undefined }
+
+    for (let i = codes.length - 1; i >= 0; i--) {
+        const code = codes[i]!
+        const next = cost[i + 1]!
+
+        // without switching first
+        const direct = { A: Infinity, B: Infinity, C: Infinity }
+        const directStep: Record<Code128CodeSet, Code128Step | undefined> = { A: undefined, B: undefined, C: undefined }
+
+        for (const set of ['A', 'B'] as const) {
+            const other = set == 'A' ? 'B' : 'A'
+
+            if (isInCodeSet(set, code)) {
+                direct[set] = 1 + next[set]
+                directStep[set] = { type: 'character', set }
+            } else if (isInCodeSet(other, code)) {
+                direct[set] = 2 + next[set]
+                directStep[set] = { type: 'shift', set: other }
+            }
+        }
+
+        const nextCode = codes[i + 1]
+
+        if (isInCodeSet('C', code) && nextCode != undefined && isInCodeSet('C', nextCode)) {
+            direct.C = 1 + cost[i + 2]!.C
+            directStep.C = { type: 'character', set: 'C' }
+        }
+
+        cost[i] = { ...direct }
+        step[i] = { ...directStep }
+
+        for (const set of sets) {
+            for (const to of sets) {
+                if (to != set && 1 + direct[to] < cost[i]![set]) {
+                    cost[i]![set] = 1 + direct[to]
+                    step[i]![set] = { type: 'switch', to }
+                }
+            }
+        }
+    }
+
+    let set = sets.reduce((best, x) => cost[0]![x] < cost[0]![best] ? x : best)
+    const bytes = [CODE128_ESCAPE, set.charCodeAt(0)]
+
+    for (let i = 0; i < codes.length;) {
+        const current = step[i]![set]!
+
+        switch (current.type) {
+            case 'switch':
+                set = current.to
+                bytes.push(CODE128_ESCAPE, set.charCodeAt(0))
+                break
+            case 'shift':
+                bytes.push(CODE128_ESCAPE, 0x53, ...code128Character(codes[i]!))
+                i++
+                break
+            case 'character':
+                if (set == 'C') {
+                    bytes.push((codes[i]! - 0x30) * 10 + codes[i + 1]! - 0x30)
+                    i += 2
+                } else {
+                    bytes.push(...code128Character(codes[i]!))
+                    i++
+                }
+                break
+        }
+    }
+
+    return bytes
+}
+
+/**
+ * Turns text into GS k CODE128 data: `{A`, `{B` or `{C` code set selections
+ * (and `{S` shifts) followed by the characters, with set C as one byte per
+ * pair of digits
+ */
+export function encodeCode128(data: string, codeSet: Code128CodeSet | 'auto' = 'auto') {
+    assertAscii('CODE128', data)
+
+    if (data.length == 0) throw new BarcodeError(`CODE128 data can't be empty`)
 
     const codes = splitToCharCodes(data)
 
-    assert(codes.every(charCode => charCode >= 48 && charCode <= 57))
-    
-    return [GS, k, 65, codes.length, ...codes]
-}
\ No newline at end of file
+    return codeSet == 'auto' ? encodeCode128Shortest(codes) : encodeCode128InSet(codes, codeSet)
+}
+
+/** Prints a CODE128 Barcode
+ *
+ * Takes any ASCII characters. By default the code sets are switched as needed to make the
+ * barcode as short as possible; a code set can be forced instead, in which case all of the
+ * data has to fit in it (only an even number of digits for C).
+ * The check character and the stop character are added automatically.
+ * */
+export function printBarcodeCode128(data: string, codeSet: Code128CodeSet | 'auto' = 'auto') {
+    return functionB(73, encodeCode128(data, codeSet), 'CODE128', 2, 255)
+}
+
+/** GS ( k with the number of bytes after pH split into pL and pH */
+function twoDimensionalCode(cn: number, fn: number, parameters: number[] | Uint8Array) {
+    const length = parameters.length + 2
+
+    if (length > 0xffff) {
+        throw new BarcodeError(`GS ( k parameters must be at most ${0xffff - 2} bytes, got ${parameters.length}`)
+    }
+
+    return [GS, 0x28, k, length & 0xff, length >> 8, cn, fn, ...parameters]
+}
+
+/** Strings are sent as UTF-8, so the length is the number of bytes rather than characters */
+function toBytes(data: string | Uint8Array) {
+    return typeof data == 'string' ? new TextEncoder().encode(data) : data
+}
+
+function assertRange(name: string, n: number, min: number, max: number) {
+    if (!Number.isInteger(n) || n < min || n > max) {
+        throw new BarcodeError(`${name} must be from ${min} to ${max}, got ${n}`)
+    }
+}
+
+export type QrCodeModel = 1 | 2 | 'micro'
+export type QrCodeErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H'
+
+const qrCodeModelMap: Record<QrCodeModel, number> = {
+    1: 49,
+    2: 50,
+    micro: 51,
+}
+
+const qrCodeErrorCorrectionLevelMap: Record<QrCodeErrorCorrectionLevel, number> = {
+    L: 48,
+    M: 49,
+    Q: 50,
+    H: 51,
+}
+
+/** Selects the QR Code model (Function 165)
+ *
+ * Model 2 is what phones expect. Micro QR is only supported by some models.
+ * */
+export function selectQrCodeModel(model: QrCodeModel = 2) {
+    return twoDimensionalCode(49, 65, [qrCodeModelMap[model], 0])
+}
+
+/** Sets the size of a QR Code module to n dots (Function 167)
+ * */
+export function setQrCodeModuleSize(n: number = 3) {
+    assertRange('QR Code module size', n, 1, 16)
+
+    return twoDimensionalCode(49, 67, [n])
+}
+
+/** Selects the QR Code error correction level (Function 169)
+ *
+ * L, M, Q and H recover about 7%, 15%, 25% and 30% of the symbol.
+ * */
+export function selectQrCodeErrorCorrectionLevel(level: QrCodeErrorCorrectionLevel = 'L') {
+    return twoDimensionalCode(49, 69, [qrCodeErrorCorrectionLevelMap[level]])
+}
+
+/** Stores the QR Code data in the symbol storage area (Function 180)
+ *
+ * Strings are encoded as UTF-8.
+ * */
+export function storeQrCodeData(data: string | Uint8Array) {
+    const bytes = toBytes(data)
+
+    assertRange('QR Code data length', bytes.length, 1, 7089)
+
+    return twoDimensionalCode(49, 80, [48, ...bytes])
+}
+
+/** Prints the QR Code in the symbol storage area (Function 181)
+ * */
+export function printQrCodeSymbolData() {
+    return twoDimensionalCode(49, 81, [48])
+}
+
+export type QrCodeOptions = {
+    model?: QrCodeModel
+    moduleSize?: number
+    errorCorrection?: QrCodeErrorCorrectionLevel
+}
+
+/** Prints a QR Code
+ *
+ * Sets the model, module size and error correction level, then stores and prints the data.
+ * */
+export function printQrCode(data: string | Uint8Array, options: QrCodeOptions = {}) {
+    return [
+        ...selectQrCodeModel(options.model),
+        ...setQrCodeModuleSize(options.moduleSize),
+        ...selectQrCodeErrorCorrectionLevel(options.errorCorrection),
+        ...storeQrCodeData(data),
+        ...printQrCodeSymbolData(),
+    ]
+}
+
+/** Sets the number of PDF417 data columns, 0 for automatic (Function 065)
+ * */
+export function setPdf417Columns(n: number = 0) {
+    assertRange('PDF417 columns', n, 0, 30)
+
+    return twoDimensionalCode(48, 65, [n])
+}
+
+/** Sets the number of PDF417 rows, 0 for automatic (Function 066)
+ * */
+export function setPdf417Rows(n: number = 0) {
+    if (n != 0) assertRange('PDF417 rows', n, 3, 90)
+
+    return twoDimensionalCode(48, 66, [n])
+}
+
+/** Sets the width of a PDF417 module to n dots (Function 067)
+ * */
+export function setPdf417ModuleWidth(n: number = 3) {
+    assertRange('PDF417 module width', n, 2, 8)
+
+    return twoDimensionalCode(48, 67, [n])
+}
+
+/** Sets the height of a PDF417 row to n times the module width (Function 068)
+ * */
+export function setPdf417RowHeight(n: number = 3) {
+    assertRange('PDF417 row height', n, 2, 8)
+
+    return twoDimensionalCode(48, 68, [n])
+}
+
+/**
+ * Either a fixed level from 0 to 8, or a ratio of error correction to data
+ * codewords in tens of percent, from 1 (10%) to 40 (400%)
+ */
+export type Pdf417ErrorCorrection = { level: number } | { ratio: number }
+
+/** Sets the PDF417 error correction level (Function 069)
+ * */
+export function setPdf417ErrorCorrection(errorCorrection: Pdf417ErrorCorrection = { ratio: 1 }) {
+    if ('level' in errorCorrection) {
+        assertRange('PDF417 error correction level', errorCorrection.level, 0, 8)
+
+        return twoDimensionalCode(48, 69, [48, 48 + errorCorrection.level])
+    }
+
+    assertRange('PDF417 error correction ratio', errorCorrection.ratio, 1, 40)
+
+    return twoDimensionalCode(48, 69, [49, errorCorrection.ratio])
+}
+
+/** Selects standard or truncated PDF417 (Function 070)
+ *
+ * Truncated PDF417 leaves out the right row indicators and stop pattern, so it is narrower but less robust.
+ * */
+export function selectPdf417Options(truncated: boolean = false) {
+    return twoDimensionalCode(48, 70, [truncated ? 1 : 0])
+}
+
+/** Stores the PDF417 data in the symbol storage area (Function 080)
+ *
+ * Strings are encoded as UTF-8.
+ * */
+export function storePdf417Data(data: string | Uint8Array) {
+    const bytes = toBytes(data)
+
+    if (bytes.length == 0) throw new BarcodeError(`PDF417 data can't be empty`)
+
+    return twoDimensionalCode(48, 80, [48, ...bytes])
+}
+
+/** Prints the PDF417 symbol in the symbol storage area (Function 081)
+ * */
+export function printPdf417SymbolData() {
+    return twoDimensionalCode(48, 81, [48])
+}
+
+export type Pdf417Options = {
+    columns?: number
+    rows?: number
+    moduleWidth?: number
+    rowHeight?: number
+    errorCorrection?: Pdf417ErrorCorrection
+    truncated?: boolean
+}
+
+/** Prints a PDF417 symbol
+ *
+ * Sets the size, error correction and options, then stores and prints the data.
+ * */
+export function printPdf417(data: string | Uint8Array, options: Pdf417Options = {}) {
+    return [
+        ...setPdf417Columns(options.columns),
+        ...setPdf417Rows(options.rows),
+        ...setPdf417ModuleWidth(options.moduleWidth),
+        ...setPdf417RowHeight(options.rowHeight),
+        ...setPdf417ErrorCorrection(options.errorCorrection),
+        ...selectPdf417Options(options.truncated),
+        ...storePdf417Data(data),
+        ...printPdf417SymbolData(),
+    ]
+}
+
+export type DataMatrixShape = 'square' | 'rectangle'
+
+/** Selects the DataMatrix (ECC 200) symbol type and size (Function 266)
+ *
+ * Rows and columns of 0 pick the smallest size that fits the data. A square symbol has as many columns as rows.
+ * DataMatrix is not supported by the TM-T88IV; later models such as the TM-T88VI print it.
+ * */
+export function selectDataMatrixType(shape: DataMatrixShape = 'square', rows: number = 0, columns: number = 0) {
+    assertRange('DataMatrix rows', rows, 0, 144)
+    assertRange('DataMatrix columns', columns, 0, 144)
+
+    return shape == 'square'
+        ? twoDimensionalCode(54, 66, [48, rows, 0])
+        : twoDimensionalCode(54, 66, [49, rows, columns])
+}
+
+/** Sets the size of a DataMatrix module to n dots (Function 267)
+ * */
+export function setDataMatrixModuleSize(n: number = 3) {
+    assertRange('DataMatrix module size', n, 2, 16)
+
+    return twoDimensionalCode(54, 67, [n])
+}
+
+/** Stores the DataMatrix data in the symbol storage area (Function 280)
+ *
+ * Strings are encoded as UTF-8.
+ * */
+export function storeDataMatrixData(data: string | Uint8Array) {
+    const bytes = toBytes(data)
+
+    assertRange('DataMatrix data length', bytes.length, 1, 3116)
+
+    return twoDimensionalCode(54, 80, [48, ...bytes])
+}
+
+/** Prints the DataMatrix symbol in the symbol storage area (Function 281)
+ * */
+export function printDataMatrixSymbolData() {
+    return twoDimensionalCode(54, 81, [48])
+}
+
+export type DataMatrixOptions = {
+    shape?: DataMatrixShape
+    rows?: number
+    columns?: number
+    moduleSize?: number
+}
+
+/** Prints a DataMatrix symbol
+ *
+ * Sets the type and module size, then stores and prints the data.
+ * */
+export function printDataMatrix(data: string | Uint8Array, options: DataMatrixOptions = {}) {
+    return [
+        ...selectDataMatrixType(options.shape, options.rows, options.columns),
+        ...setDataMatrixModuleSize(options.moduleSize),
+        ...storeDataMatrixData(data),
+        ...printDataMatrixSymbolData(),
+    ]
+}
+
+export type Gs1DataBarType = 'omnidirectional'
+    | 'truncated'
+    | 'stacked'
+    | 'stacked-omnidirectional'
+    | 'limited'
+    | 'expanded-stacked'
+
+const gs1DataBarTypeMap: Record<Gs1DataBarType, number> = {
+    'omnidirectional': 72,
+    'truncated': 73,
+    'stacked': 74,
+    'stacked-omnidirectional': 75,
+    'limited': 76,
+    'expanded-stacked': 77,
+}
+
+/** Sets the width of a GS1 DataBar module to n dots (Function 367)
+ * */
+export function setGs1DataBarModuleWidth(n: number = 2) {
+    assertRange('GS1 DataBar module width', n, 2, 8)
+
+    return twoDimensionalCode(51, 67, [n])
+}
+
+/** Stores the GS1 DataBar data in the symbol storage area (Function 380)
+ *
+ * All types but expanded stacked take a 13 digit GTIN, or 14 digits if the check digit is
+ * included, in which case it is verified. The printer adds the check digit itself.
+ * Limited only encodes GTINs starting with 0 or 1.
+ * Expanded stacked takes the element strings with their application identifiers.
+ * */
+export function storeGs1DataBarData(type: Gs1DataBarType, data: string) {
+    if (type == 'expanded-stacked') {
+        assertAscii('GS1 DataBar', data)
+        assertRange('GS1 DataBar expanded stacked data length', data.length, 2, 255)
+
+        return twoDimensionalCode(51, 80, [48, gs1DataBarTypeMap[type], ...splitToCharCodes(data)])
+    }
+
+    const gtin = withCheckDigit('GS1 DataBar', data, 13).slice(0, 13)
+
+    if (type == 'limited' && gtin[0] != '0' && gtin[0] != '1') {
+        throw new BarcodeError(`GS1 DataBar Limited can only encode GTINs starting with 0 or 1, got "${data}"`)
+    }
+
+    return twoDimensionalCode(51, 80, [48, gs1DataBarTypeMap[type], ...splitToCharCodes(gtin)])
+}
+
+/** Prints the GS1 DataBar symbol in the symbol storage area (Function 381)
+ * */
+export function printGs1DataBarSymbolData() {
+    return twoDimensionalCode(51, 81, [48])
+}
+
+/** Prints a GS1 DataBar symbol
+ * */
+export function printGs1DataBar(type: Gs1DataBarType, data: string, moduleWidth?: number) {
+    return [
+        ...setGs1DataBarModuleWidth(moduleWidth),
+        ...storeGs1DataBarData(type, data),
+        ...printGs1DataBarSymbolData(),
+    ]
+}
@@ -0,0 +1,508 @@
+import { AssertionError } from 'node:assert'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import EscPosBuilder from './EscPosBuilder.js'
+import {
+    characterCodeTableMap,
+    fontMap,
+    printPositionOfHriCharactersMap,
+} from './EscPosEncoder.js'
+import { BarcodeError, DocumentError, GraphicsError } from './errors.js'
+import { charactersPerLine } from './layout.js'
+import { DEFAULT_PROFILE } from './profiles.js'
+import { convertPngToRasterBitImage } from './utils/convertImageToRasterBitImage.js'
+
+import type {
+    CharacterCodeTable,
+    DrawerPin,
+    Font,
+    Justification,
+    PrintPositionOfHriCharacters,
+} from './EscPosEncoder.js'
+import type { QrCodeErrorCorrectionLevel } from './barcodes.js'
+import type { TableBorder, TableColumn } from './layout.js'
+import type { PrinterProfile, ProfileName, Symbology } from './profiles.js'
+import type { Dithering } from './utils/convertImageToRasterBitImage.js'
+import type { MultiByteEncoding } from './utils/multiByte.js'
+
+/*
+Receipts as JSON, for services that can't use the builder. The format is
+described for other languages in document.schema.json, which has to be kept
+in step with the types and validateDocument below.
+*/
+
+export type TextStyle = {
+    font?: Font
+    bold?: boolean
+    underline?: 0 | 1 | 2
+    inverse?: boolean
+    /** Character width multiplier, 1 to 8 */
+    width?: number
+    /** Character height multiplier, 1 to 8 */
+    height?: number
+}
+
+/** Text, word-wrapped unless `wrap` is false. Line breaks in the text are kept */
+export type TextBlock = {
+    type: 'text'
+    text: string
+    style?: TextStyle
+    align?: Justification
+    wrap?: boolean
+}
+
+/** An "item ..... price" line */
+export type TwoColumnBlock = {
+    type: 'two-column'
+    left: string
+    right: string
+    /** Defaults to . */
+    fill?: string
+    style?: TextStyle
+}
+
+export type TableBlock = {
+    type: 'table'
+    columns: TableColumn[]
+    rows: string[][]
+    /** How many of the rows are headers */
+    header?: number
+    border?: TableBorder
+    separators?: boolean
+    style?: TextStyle
+}
+
+/** A line of one character across the paper */
+export type DividerBlock = {
+    type: 'divider'
+    /** Defaults to - */
+    character?: string
+}
+
+/** A PNG, from a file (see RenderOptions.imageDirectory) or base64 data. Exactly one of the two has to be given */
+export type ImageBlock = {
+    type: 'image'
+    path?: string
+    base64?: string
+    /** Width in dots. Defaults to the image's own, up to the print width */
+    width?: number
+    dithering?: Dithering
+    threshold?: number
+    /** Defaults to centered */
+    align?: Justification
+}
+
+export type LinearSymbology = Exclude<Symbology, 'qr' | 'pdf417' | 'data-matrix' | 'gs1-databar'>
+
+export type BarcodeBlock = {
+    type: 'barcode'
+    symbology: LinearSymbology
+    data: string
+    /** Bar height in dots, 1 to 255 */
+    height?: number
+    /** Width of the narrowest bar in dots, 2 to 6 */
+    moduleWidth?: number
+    /** Where to print the human readable text. Defaults to below */
+    hri?: PrintPositionOfHriCharacters
+    /** Defaults to centered */
+    align?: Justification
+}
+
+export type QrCodeBlock = {
+    type: 'qr'
+    data: string
+    /** Module size in dots, 1 to 16 */
+    moduleSize?: number
+    errorCorrection?: QrCodeErrorCorrectionLevel
+    /** Defaults to centered */
+    align?: Justification
+}
+
+export type FeedBlock = {
+    type: 'feed'
+    /** Lines to feed, 1 to 255. Defaults to 1 */
+    lines?: number
+}
+
+export type CutBlock = {
+    type: 'cut'
+    /** Dots to feed past the cutting position before cutting. Defaults to 0, cutting where the paper is */
+    feed?: number
+}
+
+export type DrawerBlock = {
+    type: 'drawer'
+    /** Defaults to 2 */
+    pin?: DrawerPin
+}
+
+export type DocumentBlock = TextBlock
+    | TwoColumnBlock
+    | TableBlock
+    | DividerBlock
+    | ImageBlock
+    | BarcodeBlock
+    | QrCodeBlock
+    | FeedBlock
+    | CutBlock
+    | DrawerBlock
+
+export type ReceiptDocument = {
+    version: 1
+    /** The code table text is encoded for. Defaults to auto, which switches tables as needed */
+    codeTable?: CharacterCodeTable | 'auto'
+    /** For Japanese, Chinese or Korean text, on printers with those fonts */
+    encoding?: MultiByteEncoding
+    blocks: DocumentBlock[]
+}
+
+const JUSTIFICATIONS: Justification[] = ['left', 'centered', 'right']
+const LINEAR_SYMBOLOGIES: LinearSymbology[] = ['upc-a', 'upc-e', 'ean13', 'ean8', 'code39', 'itf', 'codabar', 'code93', 'code128']
+const DITHERINGS: Dithering[] = ['floyd-steinberg', 'atkinson', 'bayer', 'threshold']
+const MULTI_BYTE_ENCODINGS: MultiByteEncoding[] = ['shift-jis', 'gb18030', 'euc-kr']
+const TABLE_BORDERS: TableBorder[] = ['none', 'ascii', 'single', 'double']
+
+type Fields = Record<string, unknown>
+
+function isObject(value: unknown): value is Fields {
+    return typeof value == 'object' && value != null && !Array.isArray(value)
+}
+
+/** Checks a JSON object, rejecting fields that aren't known so typos don't go unnoticed */
+function checkObject(value: unknown, at: string, known: string[]) {
+    if (!isObject(value)) throw new DocumentError(`${at} must be an object`)
+
+    for (const key of Object.keys(value)) {
+        if (!known.includes(key)) throw new DocumentError(`${at} has an unknown field "${key}"`)
+    }
+
+    return value
+}
+
+function checkString(value: unknown, at: string, optional = true) {
+    if (value == undefined && optional) return
+    if (typeof value != 'string') throw new DocumentError(`${at} must be a string`)
+}
+
+function checkBoolean(value: unknown, at: string) {
+    if (value != undefined && typeof value != 'boolean') throw new DocumentError(`${at} must be true or false`)
+}
+
+function checkInteger(value: unknown, at: string, min: number, max: number) {
+    if (value == undefined) return
+
+    if (typeof value != 'number' || !Number.isInteger(value) || value < min || value > max) {
+        throw new DocumentError(`${at} must be a whole number from ${min} to ${max}`)
+    }
+}
+
+function checkOneOf(value: unknown, at: string, values: readonly unknown[]) {
+    if (value != undefined && !values.includes(value)) {
+        throw new DocumentError(`${at} must be one of ${values.map(x => JSON.stringify(x)).join(', ')}`)
+    }
+}
+
+function checkStyle(value: unknown, at: string) {
+    if (value == undefined) return
+
+    const style = checkObject(value, at, ['font', 'bold', 'underline', 'inverse', 'width', 'height'])
+
+    checkOneOf(style.font, `${at}.font`, Object.keys(fontMap))
+    checkBoolean(style.bold, `${at}.bold`)
+    checkOneOf(style.underline, `${at}.underline`, [0, 1, 2])
+    checkBoolean(style.inverse, `${at}.inverse`)
+    checkInteger(style.width, `${at}.width`, 1, 8)
+    checkInteger(style.height, `${at}.height`, 1, 8)
+}
+
+function checkColumns(value: unknown, at: string) {
+    if (!Array.isArray(value) || value.length == 0) throw new DocumentError(`${at} must be a list of at least one column`)
+
+    value.forEach((x, i) => {
+        const column = checkObject(x, `${at}[${i}]`, ['width', 'align', 'overflow'])
+        const { width } = column
+
+        const validWidth = width == undefined
+            || width == 'auto'
+            || (typeof width == 'number' && Number.isInteger(width) && width >= 1)
+            || (typeof width == 'string' && /^\d+(\.\d+)?%$/.test(width))
+
+        if (!validWidth) throw new DocumentError(`${at}[${i}].width must be a number of characters, a percentage or "auto"`)
+
+        checkOneOf(column.align, `${at}[${i}].align`, JUSTIFICATIONS)
+        checkOneOf(column.overflow, `${at}[${i}].overflow`, ['wrap', 'truncate'])
+    })
+}
+
+function checkRows(value: unknown, at: string, columns: number) {
+    if (!Array.isArray(value)) throw new DocumentError(`${at} must be a list of rows`)
+
+    value.forEach((row, i) => {
+        if (!Array.isArray(row) || row.length != columns) {
+            throw new DocumentError(`${at}[${i}] must be a list of strings, one per column (${columns})`)
+        }
+
+        row.forEach((cell, j) => checkString(cell, `${at}[${i}][${j}]`, false))
+    })
+}
+
+const blockCheckers: Record<DocumentBlock['type'], (block: Fields, at: string) => void> = {
+    text: (block, at) => {
+        checkObject(block, at, ['type', 'text', 'style', 'align', 'wrap'])
+        checkString(block.text, `${at}.text`, false)
+        checkStyle(block.style, `${at}.style`)
+        checkOneOf(block.align, `${at}.align`, JUSTIFICATIONS)
+        checkBoolean(block.wrap, `${at}.wrap`)
+    },
+    'two-column': (block, at) => {
+        checkObject(block, at, ['type', 'left', 'right', 'fill', 'style'])
+        checkString(block.left, `${at}.left`, false)
+        checkString(block.right, `${at}.right`, false)
+        checkString(block.fill, `${at}.fill`)
+        checkStyle(block.style, `${at}.style`)
+    },
+    table: (block, at) => {
+        checkObject(block, at, ['type', 'columns', 'rows', 'header', 'border', 'separators', 'style'])
+        checkColumns(block.columns, `${at}.columns`)
+        checkRows(block.rows, `${at}.rows`, (block.columns as unknown[]).length)
+        checkInteger(block.header, `${at}.header`, 0, (block.rows as unknown[]).length)
+        checkOneOf(block.border, `${at}.border`, TABLE_BORDERS)
+        checkBoolean(block.separators, `${at}.separators`)
+        checkStyle(block.style, `${at}.style`)
+    },
+    divider: (block, at) => {
+        checkObject(block, at, ['type', 'character'])
+        checkString(block.character, `${at}.character`)
+
+        if (block.character != undefined && [...block.character as string].length != 1) {
+            throw new DocumentError(`${at}.character must be a single character`)
+        }
+    },
+    image: (block, at) => {
+        checkObject(block, at, ['type', 'path', 'base64', 'width', 'dithering', 'threshold', 'align'])
+        checkString(block.path, `${at}.path`)
+        checkString(block.base64, `${at}.base64`)
+
+        if ((block.path == undefined) == (block.base64 == undefined)) {
+            throw new DocumentError(`${at} must have either a path or base64 data`)
+        }
+
+        checkInteger(block.width, `${at}.width`, 1, 65535)
+        checkOneOf(block.dithering, `${at}.dithering`, DITHERINGS)
+        checkInteger(block.threshold, `${at}.threshold`, 0, 255)
+        checkOneOf(block.align, `${at}.align`, JUSTIFICATIONS)
+    },
+    barcode: (block, at) => {
+        checkObject(block, at, ['type', 'symbology', 'data', 'height', 'moduleWidth', 'hri', 'align'])
+        if (block.symbology == undefined) throw new DocumentError(`${at}.symbology is required`)
+        checkOneOf(block.symbology, `${at}.symbology`, LINEAR_SYMBOLOGIES)
+        checkString(block.data, `${at}.data`, false)
+        checkInteger(block.height, `${at}.height`, 1, 255)
+        checkInteger(block.moduleWidth, `${at}.moduleWidth`, 2, 6)
+        checkOneOf(block.hri, `${at}.hri`, Object.keys(printPositionOfHriCharactersMap))
+        checkOneOf(block.align, `${at}.align`, JUSTIFICATIONS)
+    },
+    qr: (block, at) => {
+        checkObject(block, at, ['type', 'data', 'moduleSize', 'errorCorrection', 'align'])
+        checkString(block.data, `${at}.data`, false)
+        checkInteger(block.moduleSize, `${at}.moduleSize`, 1, 16)
+        checkOneOf(block.errorCorrection, `${at}.errorCorrection`, ['L', 'M', 'Q', 'H'])
+        checkOneOf(block.align, `${at}.align`, JUSTIFICATIONS)
+    },
+    feed: (block, at) => {
+        checkObject(block, at, ['type', 'lines'])
+        checkInteger(block.lines, `${at}.lines`, 1, 255)
+    },
+    cut: (block, at) => {
+        checkObject(block, at, ['type', 'feed'])
+        checkInteger(block.feed, `${at}.feed`, 0, 255)
+    },
+    drawer: (block, at) => {
+        checkObject(block, at, ['type', 'pin'])
+        checkOneOf(block.pin, `${at}.pin`, [2, 5])
+    },
+}
+
+/**
+ * Checks that parsed JSON is a valid receipt document, throwing a
+ * DocumentError that names the offending field if it isn't. Whether the
+ * printer can print it is only known when it is rendered.
+ */
+export function validateDocument(value: unknown): ReceiptDocument {
+    const document = checkObject(value, 'document', ['version', 'codeTable', 'encoding', 'blocks'])
+
+    if (document.version != 1) throw new DocumentError(`document.version must be 1`)
+
+    checkOneOf(document.codeTable, 'document.codeTable', [...Object.keys(characterCodeTableMap), 'auto'])
+    checkOneOf(document.encoding, 'document.encoding', MULTI_BYTE_ENCODINGS)
+
+    if (!Array.isArray(document.blocks)) throw new DocumentError(`document.blocks must be a list of blocks`)
+
+    document.blocks.forEach((block: unknown, i) => {
+        const at = `document.blocks[${i}]`
+
+        if (!isObject(block)) throw new DocumentError(`${at} must be an object`)
+
+        const type = block.type as DocumentBlock['type']
+
+        if (!Object.hasOwn(blockCheckers, type)) {
+            throw new DocumentError(`${at}.type must be one of ${Object.keys(blockCheckers).join(', ')}`)
+        }
+
+        blockCheckers[type](block, at)
+    })
+
+    return value as ReceiptDocument
+}
+
+export type RenderOptions = {
+    /**
+     * The directory image paths are relative to. Images can't be read from
+     * anywhere outside it, and without it, only base64 images are allowed,
+     * so that a posted document can't read files off the server.
+     */
+    imageDirectory?: string
+}
+
+async function loadImage(block: ImageBlock, builder: EscPosBuilder, options: RenderOptions) {
+    let file: Uint8Array
+
+    if (block.base64 != undefined) {
+        file = Buffer.from(block.base64, 'base64')
+    } else {
+        if (!options.imageDirectory) throw new DocumentError(`image paths aren't allowed without an image directory`)
+
+        let root: string
+        let resolved: string
+
+        // symlinks are followed before the check, so that none can lead out of the directory
+        try {
+            root = await fs.realpath(options.imageDirectory)
+            resolved = await fs.realpath(path.resolve(root, block.path!))
+        } catch (e) {
+            throw new DocumentError(`image ${block.path} can't be read`, { cause: e })
+        }
+
+        const relative = path.relative(root, resolved)
+
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            throw new DocumentError(`image ${block.path} is outside of the image directory`)
+        }
+
+        try {
+            file = await fs.readFile(resolved)
+        } catch (e) {
+            throw new DocumentError(`image ${block.path} can't be read`, { cause: e })
+        }
+    }
+
+    try {
+        return await convertPngToRasterBitImage(file, {
+            width: block.width,
+            maxWidth: builder.printWidth,
+            dithering: block.dithering,
+            threshold: block.threshold,
+        })
+    } catch (e) {
+        throw new DocumentError(`image ${block.path ?? 'data'} isn't a valid PNG`, { cause: e })
+    }
+}
+
+const barcodePrinters: Record<LinearSymbology, (builder: EscPosBuilder, data: string) => EscPosBuilder> = {
+    'upc-a': (builder, data) => builder.upcA(data),
+    'upc-e': (builder, data) => builder.upcE(data),
+    ean13: (builder, data) => builder.ean13(data),
+    ean8: (builder, data) => builder.ean8(data),
+    code39: (builder, data) => builder.code39(data),
+    itf: (builder, data) => builder.itf(data),
+    codabar: (builder, data) => builder.codabar(data),
+    code93: (builder, data) => builder.code93(data),
+    code128: (builder, data) => builder.code128(data),
+}
+
+async function renderBlock(builder: EscPosBuilder, block: DocumentBlock, options: RenderOptions) {
+    switch (block.type) {
+        case 'text':
+            builder.setStyle(block.style ?? {}).align(block.align ?? 'left')
+
+            if (block.wrap ?? true) builder.wrapped(block.text)
+            else for (const line of block.text.split('\n')) builder.line(line)
+
+            builder.resetStyle().align('left')
+            break
+        case 'two-column':
+            builder.setStyle(block.style ?? {}).twoColumn(block.left, block.right, block.fill).resetStyle()
+            break
+        case 'table': {
+            const { columns, rows, header, border, separators } = block
+
+            builder.setStyle(block.style ?? {}).table(rows, columns, { header, border, separators }).resetStyle()
+            break
+        }
+        case 'divider':
+            builder.line((block.character ?? '-').repeat(charactersPerLine(builder.layout)))
+            break
+        case 'image':
+            builder.align(block.align ?? 'centered').image(await loadImage(block, builder, options)).align('left')
+            break
+        case 'barcode':
+            builder
+                .align(block.align ?? 'centered')
+                .barcodeHriPosition(block.hri ?? 'below')
+                .barcodeHeight(block.height ?? 80)
+                .barcodeWidth(block.moduleWidth ?? 3)
+
+            barcodePrinters[block.symbology](builder, block.data).align('left')
+            break
+        case 'qr':
+            builder
+                .align(block.align ?? 'centered')
+                .qrCode(block.data, { moduleSize: block.moduleSize, errorCorrection: block.errorCorrection })
+                .align('left')
+            break
+        case 'feed':
+            builder.feed(block.lines ?? 1)
+            break
+        case 'cut':
+            builder.cut(block.feed ?? 0)
+            break
+        case 'drawer':
+            builder.pulse(block.pin ?? 2)
+            break
+    }
+}
+
+/**
+ * Validates a receipt document (parsed JSON) and renders it for a printer,
+ * starting with ESC @. Throws a DocumentError for invalid documents, including
+ * content that only turns out to be unprintable while rendering (columns wider
+ * than the paper, barcode data the symbology can't hold), and an
+ * UnsupportedCommandError for blocks the printer can't print.
+ *
+ * ```ts
+ * const data = await renderDocument(JSON.parse(body), 'tm-t20')
+ * await printer.write(data)
+ * ```
+ */
+export async function renderDocument(document: unknown, profile: ProfileName | PrinterProfile = DEFAULT_PROFILE, options: RenderOptions = {}) {
+    const { codeTable = 'auto', encoding, blocks } = validateDocument(document)
+    const builder = new EscPosBuilder(profile).initialise()
+
+    if (encoding) builder.multiByteEncoding(encoding)
+    builder.codeTable(codeTable)
+
+    for (const [i, block] of blocks.entries()) {
+        try {
+            await renderBlock(builder, block, options)
+        } catch (e) {
+            if (e instanceof AssertionError || e instanceof BarcodeError || e instanceof GraphicsError) {
+                throw new DocumentError(`document.blocks[${i}] can't be printed: ${e.message}`, { cause: e })
+            }
+
+            throw e
+        }
+    }
+
+    return builder.toBuffer()
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { setTimeout as sleep } from 'node:timers/promises'
+
+import { generatePulse, generatePulseInRealTime, transmitRealTimeStatus } from './EscPosEncoder.js'
+import { DrawerError } from './errors.js'
+
+import type { DrawerPin } from './EscPosEncoder.js'
+import type { Transport } from './Transport.js'
+
+/*
+Opening the cash drawer, and checking that it did open by reading the drawer
+sensor (pin 3 of the drawer kick-out connector) back with DLE EOT 1.
+*/
+
+export type OpenDrawerOptions = {
+    /** The connector pin the drawer is on. Defaults to 2 */
+    pin?: DrawerPin
+    /** How long the pulse is on, in ms, up to 510 (800 with realTime). Defaults to 100 */
+    onTime?: number
+    /** How long the pulse is off after that, in ms, up to 510. Defaults to 200 */
+    offTime?: number
+    /**
+     * Kick with DLE DC4 instead of ESC p, which works even while the printer
+     * is offline or its buffer is full. The pulse is then onTime long (in
+     * steps of 100 ms) and offTime is ignored.
+     */
+    realTime?: boolean
+    /** Whether to wait for the sensor to report the drawer open. Defaults to true */
+    confirm?: boolean
+    /** How long to wait for the sensor, in ms */
+    timeout?: number
+    /** How often to ask for the sensor, in ms */
+    pollInterval?: number
+    /**
+     * The sensor level of an open drawer. Most drawers pull pin 3 high when
+     * open, but some do the opposite.
+     */
+    openLevel?: 'high' | 'low'
+}
+
+type DrawerTransport = Pick<Transport, 'write' | 'read'>
+
+/** Reads the drawer sensor (DLE EOT 1, bit 2) */
+export async function readDrawerSensor(transport: DrawerTransport) {
+    await transport.write(Buffer.from(transmitRealTimeStatus(1)))
+
+    const reply = await transport.read()
+    const byte = reply[reply.length - 1]
+
+    if (byte == undefined) throw new DrawerError(`printer did not reply to DLE EOT 1`)
+
+    return (byte & 0x04) != 0
+}
+
+/**
+ * Sends the drawer kick pulse and, unless `confirm` is false, polls the
+ * drawer sensor until it reports the drawer open. Rejects with DrawerError if
+ * it doesn't within the timeout, as when the drawer is locked or unplugged,
+ * and for pulse times the printer can't output.
+ */
+export async function openDrawer(transport: DrawerTransport, options: OpenDrawerOptions = {}) {
+    const {
+        pin = 2,
+        onTime = 100,
+        offTime = 200,
+        realTime = false,
+        confirm = true,
+        timeout = 1000,
+        pollInterval = 100,
+        openLevel = 'high',
+    } = options
+
+    // ESC p counts in 2 ms steps up to 255, DLE DC4 in 100 ms steps up to 8
+    const maxOnTime = realTime ? 800 : 510
+
+    if (!(onTime >= 0 && onTime <= maxOnTime)) {
+        throw new DrawerError(`onTime must be 0 to ${maxOnTime} ms${realTime ? ' for a real-time pulse' : ''}, not ${onTime}`)
+    }
+
+    if (!realTime && !(offTime >= 0 && offTime <= 510)) {
+        throw new DrawerError(`offTime must be 0 to 510 ms, not ${offTime}`)
+    }
+
+    const data = realTime
+        ? generatePulseInRealTime(pin, Math.max(1, Math.round(onTime / 100)))
+        : generatePulse(pin, Math.round(onTime / 2), Math.round(offTime / 2))
+
+    await transport.write(Buffer.from(data))
+
+    if (!confirm) return
+
+    const deadline = Date.now() + timeout
+
+    while (true) {
+        const level = await readDrawerSensor(transport)
+
+        if (level == (openLevel == 'high')) return
+
+        if (Date.now() >= deadline) {
+            throw new DrawerError(`the drawer on pin ${pin} did not open within ${timeout} ms`)
+        }
+
+        await sleep(pollInterval)
+    }
+}
\ No newline at end of file
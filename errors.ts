@@ -0,0 +1,72 @@
+/**
+ * Base class for everything a transport can fail with, so callers can tell
+ * printer communication problems apart from bugs.
+ */
+export class TransportError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options)
+        this.name = new.target.name
+    }
+}
+
+/** No printer matched, or the printer to open has gone away before it was opened */
+export class DeviceNotFoundError extends TransportError {}
+
+/** The printer was found but has no interface with an OUT endpoint that could be claimed */
+export class NoOutEndpointError extends TransportError {}
+
+/** The printer was unplugged (or the connection dropped) while it was open */
+export class DetachedError extends TransportError {}
+
+/** A transfer or connection attempt did not complete in time */
+export class TransferTimeoutError extends TransportError {}
+
+/** A write or read was attempted before open() or after close() */
+export class NotOpenError extends TransportError {}
+
+/** A write was cancelled through its AbortSignal. The printer's buffers have been cleared */
+export class WriteAbortedError extends TransportError {}
+
+/**
+ * The data can't be encoded in the requested barcode symbology, e.g. a letter
+ * in an EAN-13 or a wrong check digit
+ */
+export class BarcodeError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options)
+        this.name = new.target.name
+    }
+}
+
+/** An image or graphics command got data the printer can't take, e.g. a bitmap too large for one command */
+export class GraphicsError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options)
+        this.name = new.target.name
+    }
+}
+
+/** The cash drawer was kicked but its sensor never reported it open, or the pulse asked for is longer than the printer's */
+export class DrawerError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options)
+        this.name = new.target.name
+    }
+}
+/**
+ * The printer's profile says it doesn't have a command, font, code table or
+ * symbology, so the command would be ignored or print garbage
+ */
+export class UnsupportedCommandError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options)
+        this.name = new.target.name
+    }
+}
+/** A receipt document isn't valid, e.g. a block is missing a field or has one of the wrong type */
+export class DocumentError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options)
+        this.name = new.target.name
+    }
+}
\ No newline at end of file
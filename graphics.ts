@@ -0,0 +1,303 @@
+import {
+    packBits,
+    printAndLineFeed,
+    printRasterBitImage,
+    selectBitImageMode,
+    selectDefaultLineSpacing,
+    setLineSpacing,
+} from './EscPosEncoder.js'
+import { GraphicsError } from './errors.js'
+
+const GS = 0x1d
+const L = 0x4c
+
+/*
+GS ( L / GS 8 L graphics. Newer TM models deprecate GS v 0 in favour of these:
+the image is stored in the print buffer with one function and printed with
+another.
+*/
+
+/**
+ * GS ( L, or GS 8 L when the parameters don't fit in its 2-byte length.
+ * m is always 48.
+ */
+function graphics(fn: number, parameters: number[] | Uint8Array) {
+    const length = parameters.length + 2
+
+    if (length <= 0xffff) return [GS, 0x28, L, length & 0xff, length >> 8, 48, fn, ...parameters]
+
+    return [GS, 0x38, L, length & 0xff, (length >> 8) & 0xff, (length >> 16) & 0xff, (length >>> 24) & 0xff, 48, fn, ...parameters]
+}
+
+function assertRange(name: string, n: number, min: number, max: number) {
+    if (!Number.isInteger(n) || n < min || n > max) {
+        throw new GraphicsError(`${name} must be from ${min} to ${max}, got ${n}`)
+    }
+}
+
+function assertBitmap(data: number[][]) {
+    assertRange('graphics height', data.length, 1, 0xffff)
+    assertRange('graphics width', data[0]?.length ?? 0, 1, 0xffff)
+
+    if (!data.every(row => row.length == data[0]!.length)) {
+        throw new GraphicsError('every row of the graphics data must be the same width')
+    }
+}
+
+/**
+ * Packs rows of dots into columns, top to bottom and then left to right,
+ * with the top dot of each byte in the most significant bit. The height is
+ * padded to a whole byte.
+ */
+export function packColumns(data: number[][]) {
+    const width = data[0]?.length ?? 0
+    const bytesPerColumn = Math.ceil(data.length / 8)
+    const packed = new Uint8Array(width * bytesPerColumn)
+
+    for (let y = 0; y < data.length; y++) {
+        const row = data[y]!
+
+        for (let x = 0; x < width; x++) {
+            if (row[x]) packed[x * bytesPerColumn + (y >> 3)]! |= 0x80 >> (y & 7)
+        }
+    }
+
+    return packed
+}
+
+export type GraphicsDotDensity = 180 | 360
+
+/** Sets the reference dot density for graphics, in dots per inch (Function 49)
+ *
+ * Only some models print at 360 dpi.
+ * */
+export function setGraphicsDotDensity(density: GraphicsDotDensity = 180) {
+    const n = density == 180 ? 50 : 51
+
+    return graphics(49, [n, n])
+}
+
+export type GraphicsOptions = {
+    horizontalScale?: 1 | 2
+    verticalScale?: 1 | 2
+    /** Which color to print with, on models with more than one. Defaults to 1 */
+    color?: 1 | 2 | 3 | 4
+    /**
+     * Multiple tone graphics are sent as one bitmap per tone, each with the
+     * tone as its color. Defaults to monochrome.
+     */
+    tone?: 'monochrome' | 'multiple'
+}
+
+function graphicsHeader(data: number[][], options: GraphicsOptions) {
+    const { horizontalScale = 1, verticalScale = 1, color = 1, tone = 'monochrome' } = options
+
+    assertBitmap(data)
+
+    const width = data[0]!.length
+    const height = data.length
+
+    return [tone == 'monochrome' ? 48 : 52, horizontalScale, verticalScale, 48 + color, width & 0xff, width >> 8, height & 0xff, height >> 8]
+}
+
+/** Stores raster graphics in the print buffer (Function 112)
+ *
+ * Data larger than 65535 bytes is sent with GS 8 L.
+ * */
+export function storeRasterGraphicsData(data: number[][], options: GraphicsOptions = {}) {
+    const header = graphicsHeader(data, options)
+    const packed = packBits(data)
+
+    const parameters = new Uint8Array(header.length + packed.length)
+    parameters.set(header)
+    parameters.set(packed, header.length)
+
+    return graphics(112, parameters)
+}
+
+/** Stores column format graphics in the print buffer (Function 113)
+ *
+ * Data larger than 65535 bytes is sent with GS 8 L.
+ * */
+export function storeColumnGraphicsData(data: number[][], options: Omit<GraphicsOptions, 'tone'> = {}) {
+    const header = graphicsHeader(data, options)
+    const packed = packColumns(data)
+
+    const parameters = new Uint8Array(header.length + packed.length)
+    parameters.set(header)
+    parameters.set(packed, header.length)
+
+    return graphics(113, parameters)
+}
+
+/** Prints the graphics stored in the print buffer (Function 50)
+ * */
+export function printGraphicsData() {
+    return graphics(50, [])
+}
+
+/**
+ * Where graphics are kept between jobs: NV graphics survive power off (but
+ * the memory only takes a limited number of writes), download graphics are
+ * lost when the printer is turned off or reset
+ */
+export type GraphicsMemory = 'nv' | 'download'
+
+/** Function numbers, which are 16 higher for download graphics than for NV graphics */
+function memoryFunction(memory: GraphicsMemory, fn: number) {
+    return memory == 'nv' ? fn : fn + 16
+}
+
+/** Key codes are 2 characters from 32 to 126, e.g. 'LG' */
+function keyCode(key: string) {
+    const codes = key.split('').map(x => x.charCodeAt(0))
+
+    if (codes.length != 2 || codes.some(x => x < 32 || x > 126)) {
+        throw new GraphicsError(`graphics key codes must be 2 printable ASCII characters, got "${key}"`)
+    }
+
+    return codes
+}
+
+/** Asks for the size of the NV graphics memory, in bytes (Function 48)
+ *
+ * The printer replies with 37h 30h, the size in ASCII digits and NUL.
+ * */
+export function requestNvGraphicsCapacity() {
+    return graphics(48, [])
+}
+
+/** Asks for the remaining NV (Function 51) or download (Function 52) graphics memory, in bytes
+ *
+ * The printer replies with 37h, 31h or 32h, the size in ASCII digits and NUL.
+ * */
+export function requestRemainingGraphicsCapacity(memory: GraphicsMemory = 'nv') {
+    return graphics(memory == 'nv' ? 51 : 52, [])
+}
+
+/** Asks for the key codes of the stored graphics (Function 64 / 80)
+ *
+ * The printer replies with 37h, an identifier, the key codes, a status (40h
+ * for the last block, 41h when there are more) and NUL. Each further block is
+ * asked for with ACK.
+ * */
+export function requestGraphicsKeyCodes(memory: GraphicsMemory = 'nv') {
+    return graphics(memoryFunction(memory, 64), [0x4b, 0x43]) // KC
+}
+
+/** Deletes all stored graphics (Function 65 / 81)
+ * */
+export function deleteAllGraphics(memory: GraphicsMemory = 'nv') {
+    return graphics(memoryFunction(memory, 65), [0x43, 0x4c, 0x52]) // CLR
+}
+
+/** Deletes the graphics stored under a key code (Function 66 / 82)
+ * */
+export function deleteGraphics(key: string, memory: GraphicsMemory = 'nv') {
+    return graphics(memoryFunction(memory, 66), keyCode(key))
+}
+
+/** Stores raster graphics under a key code (Function 67 / 83)
+ *
+ * Storing graphics with a key code that is in use replaces them. NV memory
+ * only takes a limited number of writes, so avoid defining NV graphics for
+ * every job (see storeGraphics in storedGraphics.ts).
+ * */
+export function defineGraphics(key: string, data: number[][], memory: GraphicsMemory = 'nv', options: Pick<GraphicsOptions, 'color' | 'tone'> = {}) {
+    const { color = 1, tone = 'monochrome' } = options
+
+    assertBitmap(data)
+
+    const width = data[0]!.length
+    const height = data.length
+    const packed = packBits(data)
+
+    // b is the number of colors that follow, each with its own bitmap
+    const header = [tone == 'monochrome' ? 48 : 52, ...keyCode(key), 1, width & 0xff, width >> 8, height & 0xff, height >> 8, 48 + color]
+
+    const parameters = new Uint8Array(header.length + packed.length)
+    parameters.set(header)
+    parameters.set(packed, header.length)
+
+    return graphics(memoryFunction(memory, 67), parameters)
+}
+
+/** Prints the graphics stored under a key code (Function 69 / 85)
+ * */
+export function printStoredGraphics(key: string, memory: GraphicsMemory = 'nv', horizontalScale: 1 | 2 = 1, verticalScale: 1 | 2 = 1) {
+    return graphics(memoryFunction(memory, 69), [...keyCode(key), horizontalScale, verticalScale])
+}
+
+/**
+ * Prints raster graphics, storing and printing them one band of `bandHeight`
+ * dots at a time
+ */
+export function printGraphics(data: number[][], options: GraphicsOptions & { bandHeight?: number } = {}) {
+    const { bandHeight = data.length } = options
+
+    assertRange('band height', bandHeight, 1, 0xffff)
+
+    const commands: number[] = []
+
+    for (let y = 0; y < data.length; y += bandHeight) {
+        for (const byte of storeRasterGraphicsData(data.slice(y, y + bandHeight), options)) commands.push(byte)
+        commands.push(...printGraphicsData())
+    }
+
+    return commands
+}
+
+/**
+ * Prints an image with ESC *, 24 dots at a time, for printers with neither
+ * GS v 0 nor GS ( L. Each band is a line of its own, with the line spacing
+ * set to match so there are no gaps. The spacing assumes the default vertical
+ * motion unit of 1/360", in which 24 dots are 48 units.
+ */
+export function printBitImage(data: number[][], horizontalScale: 1 | 2 = 1) {
+    assertBitmap(data)
+
+    const commands: number[] = [...setLineSpacing(48)]
+
+    for (let y = 0; y < data.length; y += 24) {
+        const band = data.slice(y, y + 24)
+
+        while (band.length < 24) band.push(new Array<number>(data[0]!.length).fill(0))
+
+        for (const byte of selectBitImageMode(24, horizontalScale == 1 ? 'double' : 'single', Array.from(packColumns(band)))) commands.push(byte)
+        commands.push(...printAndLineFeed())
+    }
+
+    commands.push(...selectDefaultLineSpacing())
+
+    return commands
+}
+
+/**
+ * Which command images are printed with: GS v 0 raster bit images, GS ( L
+ * graphics (preferred by newer models) or ESC * bit images (for older ones)
+ */
+export type ImageCommand = 'raster' | 'graphics' | 'bit-image'
+
+export type ImageOptions = {
+    horizontalScale?: 1 | 2
+    /** Not available with bit-image */
+    verticalScale?: 1 | 2
+    /** Splits tall images into separate commands of this many dots. Ignored by bit-image, which always prints 24 at a time */
+    bandHeight?: number
+}
+
+/** Prints an image with the given command */
+export function printImage(data: number[][], command: ImageCommand = 'raster', options: ImageOptions = {}) {
+    const { horizontalScale = 1, verticalScale = 1, bandHeight } = options
+
+    switch (command) {
+        case 'raster':
+            return printRasterBitImage(data, verticalScale, horizontalScale, bandHeight)
+        case 'graphics':
+            return printGraphics(data, { horizontalScale, verticalScale, bandHeight })
+        case 'bit-image':
+            if (verticalScale != 1) throw new GraphicsError('bit images can only be scaled horizontally')
+
+            return printBitImage(data, horizontalScale)
+    }
+}
\ No newline at end of file
@@ -0,0 +1,368 @@
+import assert from 'node:assert/strict'
+
+import { DEFAULT_PROFILE, fontMetrics } from './profiles.js'
+import {
+    characterCells,
+    encodeMultiByteText,
+    encodeText,
+    encodeTextAuto,
+} from './utils/text.js'
+
+import type { Font, Justification } from './EscPosEncoder.js'
+import type { PrinterProfile } from './profiles.js'
+import type { CellOptions } from './utils/text.js'
+
+/*
+Text layout for fixed width fonts. Lengths are in printed character cells,
+after encoding: a multi-byte character takes 2 cells, and a character that
+falls back takes as many as its replacement.
+*/
+
+export type LayoutOptions = CellOptions & {
+    font?: Font
+    /** The character width multiplier, as set with selectCharacterSize */
+    width?: number
+    /** The printer, for its font sizes. Defaults to the TM-T88IV */
+    profile?: PrinterProfile
+    /** Width of the print area in dots. Defaults to the profile's */
+    printWidth?: number
+}
+
+/**
+ * How many characters fit on a line: 42 for Font A and 56 for Font B at
+ * normal width on a TM-T88IV. Throws if the printer doesn't have the font.
+ */
+export function charactersPerLine(options: LayoutOptions = {}) {
+    const { font = 'A', width = 1, profile = DEFAULT_PROFILE, printWidth = profile.printWidth } = options
+
+    return Math.floor(Math.floor(printWidth / fontMetrics(profile, font).width) / width)
+}
+
+/** The number of character cells text takes up when printed */
+export function measureText(s: string, options: CellOptions = {}) {
+    let cells = 0
+
+    for (const character of s.normalize('NFC')) cells += characterCells(character, options)
+
+    return cells
+}
+
+/** Splits text after as many characters as fit in `columns` cells, always taking at least one */
+function splitAt(s: string, columns: number, options: CellOptions) {
+    const characters = [...s.normalize('NFC')]
+    let cells = 0
+    let i = 0
+
+    for (; i < characters.length; i++) {
+        cells += characterCells(characters[i]!, options)
+
+        if (cells > columns) break
+    }
+
+    i = Math.max(i, 1)
+
+    return [characters.slice(0, i).join(''), characters.slice(i).join('')] as const
+}
+
+/**
+ * Word-wraps text to lines of at most `columns` cells. Line breaks in the
+ * text are kept, and words too long for a line of their own are broken up.
+ */
+export function wrap(s: string, columns: number, options: CellOptions = {}) {
+    const lines: string[] = []
+
+    for (const paragraph of s.split('\n')) {
+        let line = ''
+        let used = 0
+
+        for (let word of paragraph.split(' ').filter(x => x != '')) {
+            let cells = measureText(word, options)
+            const needed = line == '' ? cells : used + 1 + cells
+
+            if (needed <= columns) {
+                line = line == '' ? word : line + ' ' + word
+                used = needed
+                continue
+            }
+
+            if (line != '') lines.push(line)
+
+            while (cells > columns) {
+                const [head, rest] = splitAt(word, columns, options)
+
+                lines.push(head)
+                word = rest
+                cells = measureText(word, options)
+            }
+
+            line = word
+            used = cells
+        }
+
+        lines.push(line)
+    }
+
+    return lines
+}
+
+/**
+ * Cuts text down to `columns` cells, ending it with the ellipsis if anything
+ * was cut. The default is three dots, as … isn't in most code tables.
+ */
+export function truncate(s: string, columns: number, options: CellOptions & { ellipsis?: string } = {}) {
+    const { ellipsis = '...' } = options
+
+    if (measureText(s, options) <= columns) return s
+
+    const ellipsisCells = measureText(ellipsis, options)
+
+    if (ellipsisCells >= columns) return splitAt(s, columns, options)[0]
+
+    return splitAt(s, columns - ellipsisCells, options)[0] + ellipsis
+}
+
+/**
+ * Pads text to `columns` cells, placing it to the left, right or in the
+ * middle. The fill should be a single-cell character. Text that is already
+ * as wide is returned as it is.
+ */
+export function pad(s: string, columns: number, align: Justification = 'left', options: CellOptions & { fill?: string } = {}) {
+    const { fill = ' ' } = options
+    const space = columns - measureText(s, options)
+
+    if (space <= 0) return s
+
+    const left = align == 'right' ? space : align == 'centered' ? Math.floor(space / 2) : 0
+
+    return fill.repeat(left) + s + fill.repeat(space - left)
+}
+
+/**
+ * Lays out "item ..... price" lines: `left` at the start, `right` at the end
+ * and the fill in between. If they don't fit on one line, `left` is wrapped
+ * and `right` goes on its last line.
+ */
+export function twoColumn(left: string, right: string, fill: string = '.', options: LayoutOptions & { columns?: number } = {}) {
+    const columns = options.columns ?? charactersPerLine(options)
+
+    right = truncate(right, Math.max(columns - 2, 1), options)
+
+    const rightCells = measureText(right, options)
+    const lines = wrap(left, columns - rightCells - 1, options)
+    const last = lines.pop() ?? ''
+    const gap = columns - measureText(last, options) - rightCells
+
+    // keep a space either side of the fill, so it doesn't run into the text
+    const between = fill == ' ' || gap < 3 ? ' '.repeat(gap) : ' ' + fill.repeat(gap - 2) + ' '
+
+    return [...lines, last + between + right]
+}
+
+/** Fixed width in characters, a percentage of the line, or 'auto' to fit the contents */
+export type ColumnWidth = number | `${number}%` | 'auto'
+
+export type TableColumn = {
+    /** Defaults to auto. Auto columns share whatever the other columns leave */
+    width?: ColumnWidth
+    align?: Justification
+    /** What to do with text wider than the column. Defaults to wrap */
+    overflow?: 'wrap' | 'truncate'
+}
+
+export type TableBorder = 'none' | 'ascii' | 'single' | 'double'
+
+export type TableOptions = LayoutOptions & {
+    /** Width of the table in characters. Defaults to the line length */
+    lineWidth?: number
+    /** How many of the rows are headers, which get a line under them. Defaults to 0 */
+    header?: number
+    /**
+     * Box-drawing borders around every cell. 'single' and 'double' fall back
+     * to 'ascii' for code tables that don't have the glyphs. Defaults to none.
+     */
+    border?: TableBorder
+    /** Draws a line between the body rows too */
+    separators?: boolean
+    /** Spaces between columns when there is no border. Defaults to 1 */
+    gap?: number
+}
+
+type BorderGlyphs = {
+    horizontal: string
+    vertical: string
+    /** Corners and junctions, for the top, middle and bottom rules, from left to right */
+    top: [string, string, string]
+    middle: [string, string, string]
+    bottom: [string, string, string]
+}
+
+const borderGlyphs: Record<Exclude<TableBorder, 'none'>, BorderGlyphs> = {
+    ascii: {
+        horizontal: '-',
+        vertical: '|',
+        top: ['+', '+', '+'],
+        middle: ['+', '+', '+'],
+        bottom: ['+', '+', '+'],
+    },
+    single: {
+        horizontal: '─',
+        vertical: '│',
+        top: ['┌', '┬', '┐'],
+        middle: ['├', '┼', '┤'],
+        bottom: ['└', '┴', '┘'],
+    },
+    double: {
+        horizontal: '═',
+        vertical: '║',
+        top: ['╔', '╦', '╗'],
+        middle: ['╠', '╬', '╣'],
+        bottom: ['╚', '╩', '╝'],
+    },
+}
+
+/**
+ * Whether every glyph prints as a single cell. The PC437 family has the
+ * box-drawing characters, WPC1252 and Katakana don't, and multi-byte
+ * encodings have them as 2 cell characters, which would break the layout.
+ */
+function hasGlyphs(glyphs: BorderGlyphs, options: CellOptions) {
+    const characters = [glyphs.horizontal, glyphs.vertical, ...glyphs.top, ...glyphs.middle, ...glyphs.bottom]
+
+    // an empty fallback makes a missing glyph 0 cells
+    return characters.every(x => characterCells(x, { ...options, fallback: '' }) == 1)
+}
+
+function resolveBorder(border: TableBorder, options: CellOptions) {
+    if (border == 'none') return undefined
+    if (border != 'ascii' && !hasGlyphs(borderGlyphs[border], options)) return borderGlyphs.ascii
+
+    return borderGlyphs[border]
+}
+
+/** Works out the width of every column, in characters */
+function columnWidths(rows: string[][], columns: TableColumn[], available: number, options: CellOptions) {
+    const widths = columns.map(column => {
+        const width = column.width ?? 'auto'
+
+        if (typeof width == 'number') return width
+        if (width == 'auto') return 0
+
+        return Math.floor(available * parseFloat(width) / 100)
+    })
+
+    const auto = columns.flatMap((column, i) => (column.width ?? 'auto') == 'auto' ? [i] : [])
+    const remaining = available - widths.reduce((a, b) => a + b, 0)
+
+    assert(remaining >= auto.length, `the table columns need ${available - remaining + auto.length} characters, but there are ${available}`)
+
+    if (auto.length == 0) return widths
+
+    // start from the widest line in each auto column
+    for (const i of auto) {
+        widths[i] = Math.max(1, ...rows.flatMap(row => (row[i] ?? '').split('\n').map(x => measureText(x, options))))
+    }
+
+    let total = auto.reduce((sum, i) => sum + widths[i]!, 0)
+
+    // too wide: take from the widest until it fits
+    while (total > remaining) {
+        const widest = auto.reduce((a, b) => widths[b]! > widths[a]! ? b : a)
+
+        widths[widest]!--
+        total--
+    }
+
+    // too narrow: share out the rest, so the table fills the line
+    for (let i = 0; total < remaining; i = (i + 1) % auto.length) {
+        widths[auto[i]!]!++
+        total++
+    }
+
+    return widths
+}
+
+function cellLines(text: string, width: number, column: TableColumn, options: CellOptions) {
+    const lines = column.overflow == 'truncate'
+        ? text.split('\n').map(x => truncate(x, width, options))
+        : wrap(text, width, options)
+
+    return lines.map(x => pad(x, width, column.align, options))
+}
+
+/**
+ * Lays out a table as lines of text. Cells can have several lines (from
+ * wrapping or line breaks in the text), and the other cells in the row are
+ * padded to match.
+ *
+ * ```ts
+ * tableLines([
+ *     ['Qty', 'Item', 'Price'],
+ *     ['2', 'Coffee', '7.00'],
+ * ], [
+ *     { width: 4, align: 'right' },
+ *     {},
+ *     { width: 8, align: 'right' },
+ * ], { header: 1, border: 'single' })
+ * ```
+ */
+export function tableLines(rows: string[][], columns: TableColumn[], options: TableOptions = {}) {
+    const { header = 0, separators = false, gap = 1 } = options
+    const lineWidth = options.lineWidth ?? charactersPerLine(options)
+    const glyphs = resolveBorder(options.border ?? 'none', options)
+
+    // a border takes a character either side of the table and between columns, plus a space of padding in each cell
+    const overhead = glyphs ? columns.length * 3 + 1 : (columns.length - 1) * gap
+    const widths = columnWidths(rows, columns, lineWidth - overhead, options)
+
+    const rule = ([left, middle, right]: [string, string, string]) => {
+        if (!glyphs) return ''
+
+        return left + widths.map(x => glyphs.horizontal.repeat(x + 2)).join(middle) + right
+    }
+
+    const plainRule = () => {
+        const horizontal = hasGlyphs(borderGlyphs.single, options) ? '─' : '-'
+
+        return horizontal.repeat(widths.reduce((a, b) => a + b, 0) + overhead)
+    }
+
+    const lines: string[] = []
+
+    if (glyphs) lines.push(rule(glyphs.top))
+
+    rows.forEach((row, r) => {
+        if (r > 0 && (r == header || (r > header && separators))) {
+            lines.push(glyphs ? rule(glyphs.middle) : plainRule())
+        }
+
+        const cells = columns.map((column, i) => cellLines(row[i] ?? '', widths[i]!, column, options))
+        const height = Math.max(...cells.map(x => x.length))
+
+        for (let y = 0; y < height; y++) {
+            const parts = cells.map((x, i) => x[y] ?? ' '.repeat(widths[i]!))
+
+            lines.push(glyphs
+                ? glyphs.vertical + parts.map(x => ` ${x} `).join(glyphs.vertical) + glyphs.vertical
+                : parts.join(' '.repeat(gap)))
+        }
+    })
+
+    if (glyphs) lines.push(rule(glyphs.bottom))
+
+    return lines
+}
+
+/**
+ * Lays out a table (see tableLines) and encodes it, one line at a time
+ * followed by LF. Text is encoded for `options.table`; 'auto' assumes the
+ * printer starts on PC437.
+ */
+export function table(rows: string[][], columns: TableColumn[], options: TableOptions = {}) {
+    const { table = 'pc437-usa-standard-europe', tables, encoding, fallback } = options
+    const text = tableLines(rows, columns, options).join('\n') + '\n'
+
+    if (encoding) return encodeMultiByteText(text, encoding, { table: table == 'auto' ? undefined : table, fallback }).data
+    if (table == 'auto') return encodeTextAuto(text, 'pc437-usa-standard-europe', { tables, fallback }).data
+
+    return encodeText(text, table, { fallback })
+}
@@ -0,0 +1,195 @@
+import { UnsupportedCommandError } from './errors.js'
+import { AUTO_TABLES } from './utils/text.js'
+
+import type { CharacterCodeTable, Font } from './EscPosEncoder.js'
+import type { ImageCommand } from './graphics.js'
+import type { MultiByteEncoding } from './utils/multiByte.js'
+
+/*
+What each printer model can do, so that layout and the builder can work out
+line lengths and avoid commands the printer would silently ignore. Models
+that aren't listed can be described by spreading the closest profile and
+overriding what differs.
+*/
+
+/** Size of a character cell in dots, including the character spacing */
+export type FontMetrics = {
+    width: number
+    height: number
+}
+
+/** Barcode and 2D code symbologies, as printed by GS k and GS ( k */
+export type Symbology = 'upc-a'
+    | 'upc-e'
+    | 'ean13'
+    | 'ean8'
+    | 'code39'
+    | 'itf'
+    | 'codabar'
+    | 'code93'
+    | 'code128'
+    | 'qr'
+    | 'pdf417'
+    | 'data-matrix'
+    | 'gs1-databar'
+
+/** 'full' cutters can also do partial cuts */
+export type CutterType = 'full' | 'partial' | 'none'
+
+export type PrinterProfile = {
+    name: string
+    /** USB IDs the model reports, for picking it up without the USB printer class */
+    usbIds: { vendorId: number, productId: number }[]
+    /** Paper width in mm */
+    paperWidth: 58 | 80
+    /** Width of the print area in dots */
+    printWidth: number
+    dotsPerInch: number
+    fonts: Partial<Record<Font, FontMetrics>>
+    /** The character code tables (ESC t) the model has */
+    codeTables: CharacterCodeTable[]
+    /** Multi-byte encodings of the model's Kanji/Chinese/Korean fonts, empty for ANK models */
+    multiByteEncodings: MultiByteEncoding[]
+    symbologies: Symbology[]
+    cutter: CutterType
+    /** The image commands the model has, the preferred one first */
+    imageCommands: ImageCommand[]
+    pageMode: boolean
+}
+
+const LINEAR_SYMBOLOGIES: Symbology[] = ['upc-a', 'upc-e', 'ean13', 'ean8', 'code39', 'itf', 'codabar', 'code93', 'code128']
+
+const EPSON_CODE_TABLES: CharacterCodeTable[] = [
+    'pc437-usa-standard-europe',
+    'katakana',
+    'pc850-multilingual',
+    'pc860-portuguese',
+    'pc863-canadian-french',
+    'pc865-nordic',
+    'wpc1252',
+    'pc866-cyrillic-2',
+    'pc852-latin-2',
+    'pc858-euro',
+    'page-255',
+]
+
+const tmT88iv: PrinterProfile = {
+    name: 'TM-T88IV',
+    usbIds: [{ vendorId: 0x4b8, productId: 0x202 }],
+    paperWidth: 80,
+    printWidth: 512,
+    dotsPerInch: 180,
+    fonts: {
+        A: { width: 12, height: 24 },
+        B: { width: 9, height: 17 },
+    },
+    codeTables: EPSON_CODE_TABLES,
+    multiByteEncodings: [],
+    symbologies: [...LINEAR_SYMBOLOGIES, 'qr', 'pdf417', 'gs1-databar'],
+    cutter: 'partial',
+    imageCommands: ['raster', 'graphics', 'bit-image'],
+    pageMode: true,
+}
+
+const tmT88v: PrinterProfile = {
+    ...tmT88iv,
+    name: 'TM-T88V',
+    // shares the TM-T88IV's IDs, which already pick it up
+    usbIds: [],
+    imageCommands: ['graphics', 'raster', 'bit-image'],
+}
+
+const tmT88vi: PrinterProfile = {
+    ...tmT88v,
+    name: 'TM-T88VI',
+    symbologies: [...tmT88v.symbologies, 'data-matrix'],
+}
+
+const tmT20: PrinterProfile = {
+    ...tmT88v,
+    name: 'TM-T20',
+    printWidth: 576,
+    dotsPerInch: 203,
+}
+
+const tmM30: PrinterProfile = {
+    ...tmT20,
+    name: 'TM-m30',
+    fonts: {
+        A: { width: 12, height: 24 },
+        B: { width: 10, height: 24 },
+    },
+}
+
+/** The unbranded 58 mm printers sold under many names, which mostly print GB18030 Chinese */
+const generic58mm: PrinterProfile = {
+    name: 'Generic 58 mm',
+    usbIds: [{ vendorId: 0x416, productId: 0x5011 }],
+    paperWidth: 58,
+    printWidth: 384,
+    dotsPerInch: 203,
+    fonts: {
+        A: { width: 12, height: 24 },
+        B: { width: 9, height: 17 },
+    },
+    codeTables: EPSON_CODE_TABLES.filter(x => x != 'katakana' && x != 'page-255'),
+    multiByteEncodings: ['gb18030'],
+    symbologies: LINEAR_SYMBOLOGIES,
+    cutter: 'none',
+    imageCommands: ['raster', 'bit-image'],
+    pageMode: false,
+}
+
+export const PROFILES = {
+    'tm-t88iv': tmT88iv,
+    'tm-t88v': tmT88v,
+    'tm-t88vi': tmT88vi,
+    'tm-t20': tmT20,
+    'tm-m30': tmM30,
+    'generic-58mm': generic58mm,
+} satisfies Record<string, PrinterProfile>
+
+export type ProfileName = keyof typeof PROFILES
+
+/** The printer everything defaults to */
+export const DEFAULT_PROFILE: PrinterProfile = tmT88iv
+
+/** Looks up a profile by name, or passes a custom one through */
+export function getProfile(profile: ProfileName | PrinterProfile) {
+    return typeof profile == 'string' ? PROFILES[profile] : profile
+}
+
+/** The first profile with the given USB IDs, if any */
+export function findProfileByUsbId(vendorId: number, productId: number) {
+    return Object.values(PROFILES).find(profile =>
+        profile.usbIds.some(x => x.vendorId == vendorId && x.productId == productId))
+}
+
+/** Throws an UnsupportedCommandError unless the profile has the feature */
+export function assertSupported(profile: PrinterProfile, supported: boolean, feature: string) {
+    if (!supported) throw new UnsupportedCommandError(`the ${profile.name} doesn't have ${feature}`)
+}
+
+/** The metrics of a font, throwing if the model doesn't have it */
+export function fontMetrics(profile: PrinterProfile, font: Font) {
+    const metrics = profile.fonts[font]
+
+    assertSupported(profile, metrics != undefined, `Font ${font}`)
+
+    return metrics!
+}
+
+/** The requested image command if the model has it, otherwise the one it prefers */
+export function imageCommandFor(profile: PrinterProfile, requested?: ImageCommand) {
+    if (requested && profile.imageCommands.includes(requested)) return requested
+
+    const preferred = profile.imageCommands[0]
+    assertSupported(profile, preferred != undefined, 'any image command')
+
+    return preferred!
+}
+
+/** The tables auto code table mode may switch between on this model */
+export function autoCodeTables(profile: PrinterProfile) {
+    return AUTO_TABLES.filter(x => profile.codeTables.includes(x))
+}
\ No newline at end of file
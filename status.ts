@@ -0,0 +1,305 @@
+import { EventEmitter } from 'node:events'
+
+import { transmitRealTimeStatus } from './EscPosEncoder.js'
+
+import type { AutomaticStatusBackOptions } from './EscPosEncoder.js'
+import type { Transport } from './Transport.js'
+import type { ReceiveQueue } from './utils/receiveQueue.js'
+
+export type PrinterErrors = {
+    /** An error of any kind has occurred (DLE EOT 2, bit 6) */
+    occurred: boolean
+    /** Recoverable error, e.g. the print head has overheated or the cover was opened while printing */
+    mechanical: boolean
+    autocutter: boolean
+    /** The printer has to be power-cycled */
+    unrecoverable: boolean
+    /** Clears by itself, e.g. head temperature */
+    autoRecoverable: boolean
+}
+
+export type PrinterStatus = {
+    online: boolean
+    coverOpen: boolean
+    paperNearEnd: boolean
+    paperEnd: boolean
+    /**
+     * The level of pin 3 of the drawer kick-out connector. Most drawers pull it
+     * high when open, but this depends on the drawer.
+     */
+    drawerOpen: boolean
+    paperFeedButtonPressed: boolean
+    /** Paper is being fed by the paper feed button */
+    feedingByButton: boolean
+    /** Printing has stopped because the paper ran out */
+    stoppedByPaperEnd: boolean
+    waitingForOnlineRecovery: boolean
+    errors: PrinterErrors
+}
+
+/** DLE EOT n values, in the order getStatus sends them */
+export const STATUS_REQUESTS = [1, 2, 3, 4] as const
+
+/**
+ * Each DLE EOT reply has bits 1 and 4 set and bits 0 and 7 clear, which also
+ * tells it apart from Automatic Status Back packets and other data.
+ */
+export function isRealTimeStatusByte(byte: number) {
+    return (byte & 0x93) == 0x12
+}
+
+function bit(byte: number, n: number) {
+    return ((byte >> n) & 1) == 1
+}
+
+/**
+ * Builds a PrinterStatus from the replies to DLE EOT 1, 2, 3 and 4 (in that order)
+ */
+export function parseRealTimeStatus(replies: number[]): PrinterStatus {
+    if (replies.length != STATUS_REQUESTS.length) {
+        throw new Error(`expected ${STATUS_REQUESTS.length} status bytes, got ${replies.length}`)
+    }
+
+    const invalid = replies.findIndex(byte => !isRealTimeStatusByte(byte))
+    if (invalid >= 0) {
+        throw new Error(`malformed reply to DLE EOT ${STATUS_REQUESTS[invalid]}: 0x${replies[invalid]!.toString(16)}`)
+    }
+
+    const [printer, offline, error, paper] = replies as [number, number, number, number]
+
+    return {
+        online: !bit(printer, 3),
+        coverOpen: bit(offline, 2),
+        paperNearEnd: bit(paper, 2) || bit(paper, 3),
+        paperEnd: bit(paper, 5) || bit(paper, 6),
+        drawerOpen: bit(printer, 2),
+        paperFeedButtonPressed: bit(printer, 6),
+        feedingByButton: bit(offline, 3),
+        stoppedByPaperEnd: bit(offline, 5),
+        waitingForOnlineRecovery: bit(printer, 5),
+        errors: {
+            occurred: bit(offline, 6),
+            mechanical: bit(error, 2),
+            autocutter: bit(error, 3),
+            unrecoverable: bit(error, 5),
+            autoRecoverable: bit(error, 6),
+        },
+    }
+}
+
+/**
+ * The DLE EOT commands to send for a full status reading, one per reply byte
+ */
+export function realTimeStatusRequests() {
+    return STATUS_REQUESTS.map(n => transmitRealTimeStatus(n))
+}
+
+/**
+ * Sends each DLE EOT request in turn and waits for its reply
+ */
+export async function requestRealTimeStatus(transport: Pick<Transport, 'write' | 'read'>) {
+    const replies: number[] = []
+
+    for (const request of realTimeStatusRequests()) {
+        await transport.write(Buffer.from(request))
+
+        const reply = await transport.read()
+
+        if (!reply || reply.length < 1) {
+            throw new Error(`printer did not reply to DLE EOT ${request[2]}`)
+        }
+
+        replies.push(reply[reply.length - 1]!)
+    }
+
+    return parseRealTimeStatus(replies)
+}
+
+/** Length of an Automatic Status Back packet */
+export const AUTOMATIC_STATUS_BACK_LENGTH = 4
+
+/** The first byte of an ASB packet has bit 4 set and bits 0, 1 and 7 clear */
+export function isAutomaticStatusBackHeader(byte: number) {
+    return (byte & 0x93) == 0x10
+}
+
+/**
+ * Builds a PrinterStatus from a 4-byte Automatic Status Back packet (see GS a)
+ */
+export function parseAutomaticStatusBack(packet: number[]): PrinterStatus {
+    if (packet.length != AUTOMATIC_STATUS_BACK_LENGTH) {
+        throw new Error(`expected ${AUTOMATIC_STATUS_BACK_LENGTH} bytes of automatic status back, got ${packet.length}`)
+    }
+
+    const [first, second, third] = packet as [number, number, number, number]
+
+    if (!isAutomaticStatusBackHeader(first)) {
+        throw new Error(`malformed automatic status back packet: 0x${first.toString(16)}`)
+    }
+
+    const errors = {
+        mechanical: bit(second, 2),
+        autocutter: bit(second, 3),
+        unrecoverable: bit(second, 5),
+        autoRecoverable: bit(second, 6),
+    }
+
+    return {
+        online: !bit(first, 3),
+        coverOpen: bit(first, 5),
+        paperNearEnd: bit(third, 0) || bit(third, 1),
+        paperEnd: bit(third, 2) || bit(third, 3),
+        drawerOpen: bit(first, 2),
+        paperFeedButtonPressed: bit(second, 1),
+        feedingByButton: bit(first, 6),
+        stoppedByPaperEnd: bit(third, 2) || bit(third, 3),
+        waitingForOnlineRecovery: bit(second, 0),
+        errors: {
+            occurred: Object.values(errors).some(x => x),
+            ...errors,
+        },
+    }
+}
+
+/**
+ * Splits data read from a printer into Automatic Status Back packets and
+ * everything else (such as DLE EOT replies). Packets can arrive split across
+ * reads, so partial packets are kept until the rest arrives.
+ */
+export class AutomaticStatusBackParser {
+    private pending: number[] = []
+
+    push(data: Uint8Array | number[]) {
+        const statuses: PrinterStatus[] = []
+        const other: number[] = []
+
+        for (const byte of data) {
+            if (this.pending.length == 0 && !isAutomaticStatusBackHeader(byte)) {
+                other.push(byte)
+                continue
+            }
+
+            this.pending.push(byte)
+
+            if (this.pending.length == AUTOMATIC_STATUS_BACK_LENGTH) {
+                statuses.push(parseAutomaticStatusBack(this.pending))
+                this.pending = []
+            }
+        }
+
+        return { statuses, other }
+    }
+
+    reset() {
+        this.pending = []
+    }
+}
+
+export type StatusEvents = {
+    /** Every status received, whether or not anything changed */
+    status: [status: PrinterStatus]
+    'paper-low': [status: PrinterStatus]
+    'paper-out': [status: PrinterStatus]
+    /** Paper is no longer low or out */
+    'paper-ok': [status: PrinterStatus]
+    'cover-open': [status: PrinterStatus]
+    'cover-closed': [status: PrinterStatus]
+    'drawer-changed': [open: boolean, status: PrinterStatus]
+    online: [status: PrinterStatus]
+    offline: [status: PrinterStatus]
+    /**
+     * A printer error started, or reading from the printer failed. Only emitted
+     * when something is listening, so that a paper jam can't crash the process.
+     */
+    error: [error: Error, status?: PrinterStatus]
+}
+
+/**
+ * Raised through the `error` event when the printer reports an error condition
+ */
+export class PrinterStatusError extends Error {
+    constructor(public status: PrinterStatus) {
+        const causes = Object.entries(status.errors)
+            .filter(([key, value]) => key != 'occurred' && value)
+            .map(([key]) => key)
+
+        super(`printer reported an error${causes.length ? `: ${causes.join(', ')}` : ''}`)
+    }
+}
+
+/**
+ * Emits the events for the differences between two statuses. On the first
+ * status (no previous one), events are emitted for every condition that is set.
+ */
+export function emitStatusChanges(emitter: Pick<EventEmitter<StatusEvents>, 'emit' | 'listenerCount'>, previous: PrinterStatus | undefined, current: PrinterStatus) {
+    emitter.emit('status', current)
+
+    const changed = (get: (status: PrinterStatus) => boolean) => previous == undefined
+        ? get(current)
+        : get(previous) != get(current)
+
+    if (changed(s => s.paperEnd) && current.paperEnd) {
+        emitter.emit('paper-out', current)
+    } else if (changed(s => s.paperNearEnd) && current.paperNearEnd && !current.paperEnd) {
+        emitter.emit('paper-low', current)
+    } else if (previous && (previous.paperEnd || previous.paperNearEnd) && !current.paperEnd && !current.paperNearEnd) {
+        emitter.emit('paper-ok', current)
+    }
+
+    if (changed(s => s.coverOpen)) {
+        emitter.emit(current.coverOpen ? 'cover-open' : 'cover-closed', current)
+    }
+
+    if (previous && previous.drawerOpen != current.drawerOpen) {
+        emitter.emit('drawer-changed', current.drawerOpen, current)
+    }
+
+    if (previous ? previous.online != current.online : !current.online) {
+        emitter.emit(current.online ? 'online' : 'offline', current)
+    }
+
+    if (changed(s => s.errors.occurred) && current.errors.occurred && emitter.listenerCount('error') > 0) {
+        emitter.emit('error', new PrinterStatusError(current), current)
+    }
+}
+
+/** What the transports turn on when enableAutomaticStatusBack is called without options: every status */
+export const DEFAULT_AUTOMATIC_STATUS_BACK: AutomaticStatusBackOptions = {
+    drawer: true,
+    onlineOffline: true,
+    error: true,
+    rollPaperSensor: true,
+    panelSwitch: true,
+}
+
+/** A transport that keeps the last status it received, and emits the changes */
+type StatusTransport = Pick<EventEmitter<StatusEvents>, 'emit' | 'listenerCount'> & { status?: PrinterStatus }
+
+function updateStatus(transport: StatusTransport, status: PrinterStatus) {
+    emitStatusChanges(transport, transport.status, status)
+    transport.status = status
+}
+
+/**
+ * Asks the printer for its status with DLE EOT 1 to 4, as getStatus on the
+ * transports does, and emits the events for whatever changed
+ */
+export async function refreshStatus(transport: StatusTransport & Pick<Transport, 'write' | 'read'>) {
+    const status = await requestRealTimeStatus(transport)
+
+    updateStatus(transport, status)
+
+    return status
+}
+
+/**
+ * Sorts what a transport received: Automatic Status Back packets update its
+ * status, everything else is queued for read()
+ */
+export function receiveData(transport: StatusTransport, parser: AutomaticStatusBackParser, received: ReceiveQueue, data: Uint8Array) {
+    const { statuses, other } = parser.push(data)
+
+    for (const status of statuses) updateStatus(transport, status)
+
+    if (other.length > 0) received.push(other)
+}
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { createHash } from 'node:crypto'
+import fs from 'node:fs/promises'
+
+import { packBits } from './EscPosEncoder.js'
+import { GraphicsError, TransferTimeoutError } from './errors.js'
+import {
+    defineGraphics,
+    deleteGraphics,
+    requestGraphicsKeyCodes,
+    requestNvGraphicsCapacity,
+    requestRemainingGraphicsCapacity,
+} from './graphics.js'
+import { convertImageFromFileToRasterBitImage } from './utils/convertImageToRasterBitImage.js'
+
+import type { GraphicsMemory } from './graphics.js'
+import type { Transport } from './Transport.js'
+import type { ImageConversionOptions } from './utils/convertImageToRasterBitImage.js'
+
+/*
+Keeping logos in the printer (GS ( L functions 48 to 85), so receipts only
+have to send a 2 character key code instead of the whole image.
+*/
+
+const ACK = 0x06
+
+/** The printer's replies to GS ( L requests start with this */
+const RESPONSE_HEADER = 0x37
+
+/** How long to wait for a whole reply, however much else the printer sends meanwhile */
+const RESPONSE_TIMEOUT = 5000
+
+type GraphicsTransport = Pick<Transport, 'write' | 'read'>
+
+/**
+ * Reads a reply of the form 37h, identifier, data, NUL, returning the data.
+ * Anything before the header (like a late real-time status byte) is skipped.
+ */
+async function readResponse(transport: GraphicsTransport) {
+    const received: number[] = []
+    const deadline = Date.now() + RESPONSE_TIMEOUT
+
+    while (true) {
+        const start = received.indexOf(RESPONSE_HEADER)
+        const end = start < 0 ? -1 : received.indexOf(0, start + 2)
+
+        if (end >= 0) return received.slice(start + 2, end)
+
+        if (Date.now() > deadline) throw new TransferTimeoutError(`no reply to a graphics request within ${RESPONSE_TIMEOUT} ms`)
+
+        for (const byte of await transport.read()) received.push(byte)
+    }
+}
+
+async function readNumber(transport: GraphicsTransport, request: number[]) {
+    await transport.write(Buffer.from(request))
+
+    const data = await readResponse(transport)
+    const value = Number(String.fromCharCode(...data))
+
+    if (!Number.isInteger(value)) throw new GraphicsError(`printer sent an invalid capacity: ${JSON.stringify(data)}`)
+
+    return value
+}
+
+/** The size of the NV graphics memory, in bytes */
+export function getNvGraphicsCapacity(transport: GraphicsTransport) {
+    return readNumber(transport, requestNvGraphicsCapacity())
+}
+
+/** How much of the NV or download graphics memory is free, in bytes */
+export function getRemainingGraphicsCapacity(transport: GraphicsTransport, memory: GraphicsMemory = 'nv') {
+    return readNumber(transport, requestRemainingGraphicsCapacity(memory))
+}
+
+/** The key codes of the graphics stored in the printer */
+export async function listGraphics(transport: GraphicsTransport, memory: GraphicsMemory = 'nv') {
+    const keys: string[] = []
+
+    await transport.write(Buffer.from(requestGraphicsKeyCodes(memory)))
+
+    while (true) {
+        const data = await readResponse(transport)
+        const status = data.pop()
+
+        for (let i = 0; i + 1 < data.length; i += 2) keys.push(String.fromCharCode(data[i]!, data[i + 1]!))
+
+        // 41h means there are more key codes, which the printer sends after an ACK
+        if (status != 0x41) return keys
+
+        await transport.write(Buffer.from([ACK]))
+    }
+}
+
+/** Identifies a bitmap by its size and dots */
+export function graphicsHash(data: number[][]) {
+    return createHash('sha256')
+        .update(`${data[0]?.length ?? 0}x${data.length}:`)
+        .update(packBits(data))
+        .digest('hex')
+}
+
+/** What storeGraphics has put in each printer's memory, by memory and key code */
+type GraphicsManifest = Partial<Record<GraphicsMemory, Record<string, string>>>
+
+/** What was stored through each transport without a manifest, so it's only sent once a session */
+const sessionManifests = new WeakMap<GraphicsTransport, GraphicsManifest>()
+
+function sessionManifest(transport: GraphicsTransport) {
+    let stored = sessionManifests.get(transport)
+
+    if (!stored) {
+        stored = {}
+        sessionManifests.set(transport, stored)
+    }
+
+    return stored
+}
+
+async function readManifest(path: string): Promise<GraphicsManifest> {
+    try {
+        return JSON.parse(await fs.readFile(path, 'utf8'))
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code == 'ENOENT') return {}
+        throw e
+    }
+}
+
+export type StoreGraphicsOptions = {
+    /** Defaults to nv */
+    memory?: GraphicsMemory
+    /**
+     * A JSON file recording the content hash of everything stored. Logos that
+     * are already in the printer with the same hash aren't sent again. Without
+     * it, the hashes are only kept for as long as the transport, so each logo
+     * is still written to NV memory once every time the program starts.
+     */
+    manifest?: string
+    /** How to convert the image, when given a PNG file */
+    conversion?: ImageConversionOptions
+}
+
+/**
+ * Stores a logo (rows of dots, or the path of a PNG) under a key code, unless
+ * the printer already has the same logo under it. Resolves with whether it
+ * was sent.
+ *
+ * Checks that the memory has room first, so a logo that doesn't fit doesn't
+ * get halfway into NV memory.
+ */
+export async function storeGraphics(transport: GraphicsTransport, key: string, image: number[][] | string, options: StoreGraphicsOptions = {}) {
+    const { memory = 'nv', manifest } = options
+
+    const data = typeof image == 'string' ? await convertImageFromFileToRasterBitImage(image, options.conversion) : image
+    const hash = graphicsHash(data)
+
+    const stored = manifest ? await readManifest(manifest) : sessionManifest(transport)
+    const keys = await listGraphics(transport, memory)
+
+    if (keys.includes(key) && stored[memory]?.[key] == hash) return false
+
+    const command = defineGraphics(key, data, memory)
+
+    // replacing graphics frees their space, but there's no asking how much that is
+    if (!keys.includes(key)) {
+        const remaining = await getRemainingGraphicsCapacity(transport, memory)
+
+        if (command.length > remaining) {
+            throw new GraphicsError(`${key} needs ${command.length} bytes of ${memory} graphics memory, but only ${remaining} are left`)
+        }
+    } else {
+        await transport.write(Buffer.from(deleteGraphics(key, memory)))
+    }
+
+    await transport.write(Buffer.from(command))
+
+    stored[memory] = { ...stored[memory], [key]: hash }
+
+    if (manifest) await fs.writeFile(manifest, JSON.stringify(stored, null, 4))
+
+    return true
+}
+
+/** Deletes a stored logo, and its record in the manifest */
+export async function removeGraphics(transport: GraphicsTransport, key: string, options: Pick<StoreGraphicsOptions, 'memory' | 'manifest'> = {}) {
+    const { memory = 'nv', manifest } = options
+
+    await transport.write(Buffer.from(deleteGraphics(key, memory)))
+
+    const stored = manifest ? await readManifest(manifest) : sessionManifest(transport)
+
+    delete stored[memory]?.[key]
+
+    if (manifest) await fs.writeFile(manifest, JSON.stringify(stored, null, 4))
+}
\ No newline at end of file
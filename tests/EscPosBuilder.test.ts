@@ -0,0 +1,45 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+
+import EscPosBuilder from '../EscPosBuilder.js'
+import { decode } from '../EscPosDecoder.js'
+import { UnsupportedCommandError } from '../errors.js'
+
+test('Kanji settings can be reset to their defaults on a single-byte model', () => {
+    const buffer = new EscPosBuilder()
+        .initialise()
+        .kanjiMode(false)
+        .kanjiPrintModes()
+        .kanjiCodeSystem('jis')
+        .kanjiSpacing()
+        .text('This is a test file')
+        .cut()
+        .toBuffer()
+
+    assert.ok(buffer.length > 0)
+})
+
+test('enabling Kanji on a single-byte model throws', () => {
+    assert.throws(() => new EscPosBuilder().kanjiMode(), UnsupportedCommandError)
+    assert.throws(() => new EscPosBuilder().kanjiPrintModes(true), UnsupportedCommandError)
+    assert.throws(() => new EscPosBuilder().kanjiCodeSystem('shift-jis'), UnsupportedCommandError)
+    assert.throws(() => new EscPosBuilder().kanjiSpacing(2, 2), UnsupportedCommandError)
+})
+
+test('a model with a multi-byte font can enable Kanji', () => {
+    assert.doesNotThrow(() => new EscPosBuilder('generic-58mm').kanjiMode().kanjiSpacing(2, 2))
+})
+
+test('real-time commands can be built', () => {
+    const items = decode(new EscPosBuilder().realTimePulse(5, 2).realTimeBuzzer(2, 3).clearBuffers().toBuffer())
+
+    assert.deepEqual(items.map(x => x.type == 'command' ? x.name : x.type), ['generatePulseInRealTime', 'soundBuzzerInRealTime', 'clearBuffers'])
+})
+
+test('text is laid out for the print area width that was set', () => {
+    const text = (builder: EscPosBuilder) => decode(builder.twoColumn('Coffee', '2.50').toBuffer()).flatMap(x => x.type == 'text' ? [x.text] : [])
+
+    // 384 dots hold 32 Font A characters, 512 hold 42
+    assert.equal(text(new EscPosBuilder().printAreaWidth(384))[0]!.length, 32)
+    assert.equal(text(new EscPosBuilder().printAreaWidth(384).initialise())[0]!.length, 42)
+})
\ No newline at end of file
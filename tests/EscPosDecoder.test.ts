@@ -0,0 +1,181 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+
+import { decode } from '../EscPosDecoder.js'
+import * as encoder from '../EscPosEncoder.js'
+import * as barcodes from '../barcodes.js'
+import * as graphics from '../graphics.js'
+
+/*
+Every encoder function, decoded again: the decoder has to name the function
+that emitted the bytes and give back the arguments it was called with.
+*/
+
+type RoundTrip = [name: string, bytes: number[], args: Record<string, unknown>]
+
+const image = [
+    [1, 0, 1, 0, 1, 0, 1, 0, 1, 1],
+    [0, 1, 0, 1, 0, 1, 0, 1, 0, 0],
+]
+
+const roundTrips: RoundTrip[] = [
+    ['horizontalTab', encoder.horizontalTab(), {}],
+    ['printAndLineFeed', encoder.printAndLineFeed(), {}],
+    ['printAndReturnToStandardModeInPageMode', encoder.printAndReturnToStandardModeInPageMode(), {}],
+    ['transmitRealTimeStatus', encoder.transmitRealTimeStatus(2), { n: 2 }],
+    ['generatePulseInRealTime', encoder.generatePulseInRealTime(5, 3), { pin: 5, t: 3 }],
+    ['soundBuzzerInRealTime', encoder.soundBuzzerInRealTime(2, 3, 4, 5), { pattern: 2, repeat: 3, onTime: 4, offTime: 5 }],
+    ['clearBuffers', encoder.clearBuffers(), {}],
+    ['cancelPrintDataInPageMode', encoder.cancelPrintDataInPageMode(), {}],
+    ['printDataInPageMode', encoder.printDataInPageMode(), {}],
+    ['setRightSideCharacterSpacing', encoder.setRightSideCharacterSpacing(7), { n: 7 }],
+    ['selectPrintModes', encoder.selectPrintModes('B', true, false, true, true), {
+        font: 'B',
+        emphasised: true,
+        doubleHeight: false,
+        doubleWidth: true,
+        underline: true,
+    }],
+    ['setAbsolutePrintPosition', encoder.setAbsolutePrintPosition(300), { value: 300 }],
+    ['selectUserDefinedCharacterSet', encoder.selectUserDefinedCharacterSet(true), { enable: true }],
+    ['defineUserDefinedCharacterSet', encoder.defineUserDefinedCharacterSet(2, 65, 65, [[[1, 2, 3], [4, 5, 6]]]), {
+        verticalBytes: 2,
+        characterCodeRangeStart: 65,
+        characterCodeRangeEnd: 65,
+        data: [[[1, 2, 3], [4, 5, 6]]],
+    }],
+    ['selectBitImageMode', encoder.selectBitImageMode(24, 'double', [1, 2, 3, 4, 5, 6]), {
+        verticalDensity: 24,
+        horizontalDensity: 'double',
+        data: [1, 2, 3, 4, 5, 6],
+    }],
+    ['underline', encoder.underline(true, 2), { enable: true, thickness: 2 }],
+    ['underline', encoder.underline(false), { enable: false }],
+    ['selectDefaultLineSpacing', encoder.selectDefaultLineSpacing(), {}],
+    ['setLineSpacing', encoder.setLineSpacing(40), { units: 40 }],
+    ['cancelUserDefinedCharacters', encoder.cancelUserDefinedCharacters(66), { n: 66 }],
+    ['initialise', encoder.initialise(), {}],
+    ['setHorizontalTabPositions', encoder.setHorizontalTabPositions([4, 10, 20]), { tabStops: [4, 10, 20] }],
+    ['bold', encoder.bold(true), { enable: true }],
+    ['doubleStrike', encoder.doubleStrike(false), { enable: false }],
+    ['printAndFeedPaper', encoder.printAndFeedPaper(90), { n: 90 }],
+    ['selectPageMode', encoder.selectPageMode(), {}],
+    ['selectFont', encoder.selectFont('B'), { font: 'B' }],
+    ['selectInternationalCharacterSet', encoder.selectInternationalCharacterSet('usa'), { characterSet: 'usa' }],
+    ['selectStandardMode', encoder.selectStandardMode(), {}],
+    ['selectPrintDirectionInPageMode', encoder.selectPrintDirectionInPageMode(3), { n: 3 }],
+    ['setPrintAreaInPageMode', encoder.setPrintAreaInPageMode(10, 20, 300, 400), { originX: 10, originY: 20, width: 300, height: 400 }],
+    ['setRelativePrintPosition', encoder.setRelativePrintPosition(-12), { d: -12 }],
+    ['selectJustification', encoder.selectJustification('right'), { justification: 'right' }],
+    ['generatePulse', encoder.generatePulse(2, 50, 100), { pin: 2, t1: 50, t2: 100 }],
+    ['printAndFeedLines', encoder.printAndFeedLines(3), { n: 3 }],
+    ['selectCharacterCodeTable', encoder.selectCharacterCodeTable('pc858-euro'), { table: 'pc858-euro' }],
+    ['setUpsideDown', encoder.setUpsideDown(true), { enable: true }],
+    ['selectKanjiPrintModes', encoder.selectKanjiPrintModes(true, false, true), { doubleWidth: true, doubleHeight: false, underline: true }],
+    ['selectKanjiCharacterMode', encoder.selectKanjiCharacterMode(), {}],
+    ['cancelKanjiCharacterMode', encoder.cancelKanjiCharacterMode(), {}],
+    ['selectKanjiCharacterCodeSystem', encoder.selectKanjiCharacterCodeSystem('shift-jis'), { system: 'shift-jis' }],
+    ['setKanjiCharacterSpacing', encoder.setKanjiCharacterSpacing(2, 3), { left: 2, right: 3 }],
+    ['selectCharacterSize', encoder.selectCharacterSize(3, 2), { width: 3, height: 2 }],
+    ['setAbsoluteVerticalPrintPositionInPageMode', encoder.setAbsoluteVerticalPrintPositionInPageMode(500), { n: 500 }],
+    ['inverse', encoder.inverse(true), { enable: true }],
+    ['selectPrintPositionOfBarcodeHriCharacters', encoder.selectPrintPositionOfBarcodeHriCharacters('both'), { position: 'both' }],
+    ['setLeftMargin', encoder.setLeftMargin(40), { n: 40 }],
+    ['setHorizontalAndVerticalMotionUnits', encoder.setHorizontalAndVerticalMotionUnits(180, 180), { x: 180, y: 180 }],
+    ['cut', encoder.cut(), { mode: 'partial', feedVertical: 0 }],
+    ['cut', encoder.cut(20), { mode: 'full', feedVertical: 20 }],
+    ['setPrintAreaWidth', encoder.setPrintAreaWidth(400), { width: 400 }],
+    ['setRelativeVerticalPrintPositionInPageMode', encoder.setRelativeVerticalPrintPositionInPageMode(-30), { d: -30 }],
+    ['setSmoothing', encoder.setSmoothing(true), { enable: true }],
+    ['selectFontForBarcodeHriCharacters', encoder.selectFontForBarcodeHriCharacters('B'), { font: 'B' }],
+    ['setBarcodeHeight', encoder.setBarcodeHeight(100), { n: 100 }],
+    ['setBarcodeWidth', encoder.setBarcodeWidth(4), { n: 4 }],
+    ['setAutomaticStatusBack', encoder.setAutomaticStatusBack({ drawer: true, error: true }), {
+        options: { drawer: true, onlineOffline: false, error: true, rollPaperSensor: false, panelSwitch: false },
+    }],
+    ['printRasterBitImage', encoder.printRasterBitImage(image, 2, 1), {
+        verticalScale: 2,
+        horizontalScale: 1,
+        width: 16,
+        height: 2,
+        data: image.map(row => [...row, 0, 0, 0, 0, 0, 0]),
+    }],
+
+    ['printBarcodeUpcA', barcodes.printBarcodeUpcA('01234567890'), { system: 65, data: '012345678905' }],
+    ['printBarcodeEan13', barcodes.printBarcodeEan13('400638133393'), { system: 67, data: '4006381333931' }],
+    ['printBarcodeEan8', barcodes.printBarcodeEan8('9638507'), { system: 68, data: '96385074' }],
+    ['printBarcodeCode39', barcodes.printBarcodeCode39('ABC-12'), { system: 69, data: '*ABC-12*' }],
+    ['printBarcodeCodabar', barcodes.printBarcodeCodabar('A40156B'), { system: 71, data: 'A40156B' }],
+    ['printBarcodeCode93', barcodes.printBarcodeCode93('TEST93'), { system: 72, data: 'TEST93' }],
+    ['printBarcodeCode128', barcodes.printBarcodeCode128('ABC', 'B'), { system: 73, data: '{BABC' }],
+    ['setQrCodeModuleSize', barcodes.setQrCodeModuleSize(6), { cn: 49, fn: 67, parameters: [6] }],
+    ['storeQrCodeData', barcodes.storeQrCodeData('hello'), { cn: 49, fn: 80, data: 'hello' }],
+    ['printQrCodeSymbolData', barcodes.printQrCodeSymbolData(), { cn: 49, fn: 81 }],
+    ['setPdf417Columns', barcodes.setPdf417Columns(4), { cn: 48, fn: 65, parameters: [4] }],
+    ['storePdf417Data', barcodes.storePdf417Data('pdf'), { cn: 48, fn: 80, data: 'pdf' }],
+    ['setDataMatrixModuleSize', barcodes.setDataMatrixModuleSize(5), { cn: 54, fn: 67, parameters: [5] }],
+    ['storeGs1DataBarData', barcodes.storeGs1DataBarData('omnidirectional', '0123456789012'), { cn: 51, fn: 80 }],
+
+    ['setGraphicsDotDensity', graphics.setGraphicsDotDensity(360), { fn: 49 }],
+    ['printGraphicsData', graphics.printGraphicsData(), { fn: 50 }],
+    ['storeRasterGraphicsData', graphics.storeRasterGraphicsData(image, { horizontalScale: 2 }), {
+        fn: 112,
+        horizontalScale: 2,
+        verticalScale: 1,
+        width: 10,
+        height: 2,
+        data: image.map(row => [...row, 0, 0, 0, 0, 0, 0]),
+    }],
+    ['storeColumnGraphicsData', graphics.storeColumnGraphicsData(image), { fn: 113, width: 10, height: 2, data: image }],
+    ['requestNvGraphicsCapacity', graphics.requestNvGraphicsCapacity(), { fn: 48 }],
+    ['requestGraphicsKeyCodes', graphics.requestGraphicsKeyCodes('download'), { fn: 80 }],
+    ['deleteAllGraphics', graphics.deleteAllGraphics(), { fn: 65 }],
+    ['deleteGraphics', graphics.deleteGraphics('LG', 'download'), { fn: 82, memory: 'download', key: 'LG' }],
+    ['defineGraphics', graphics.defineGraphics('LG', image), {
+        fn: 67,
+        memory: 'nv',
+        key: 'LG',
+        width: 10,
+        height: 2,
+        data: image.map(row => [...row, 0, 0, 0, 0, 0, 0]),
+    }],
+    ['printStoredGraphics', graphics.printStoredGraphics('LG', 'nv', 2, 1), { fn: 69, memory: 'nv', key: 'LG' }],
+]
+
+for (const [name, bytes, args] of roundTrips) {
+    test(`${name} ${JSON.stringify(args).slice(0, 60)} decodes to the same call`, () => {
+        const items = decode(bytes)
+
+        assert.equal(items.length, 1, `expected one command, got ${JSON.stringify(items.map(x => x.type))}`)
+
+        const [item] = items
+
+        assert.equal(item?.type, 'command')
+        assert.equal(item.name, name)
+
+        const decoded: Record<string, unknown> = item.args
+
+        for (const [key, value] of Object.entries(args)) assert.deepEqual(decoded[key], value, `args.${key}`)
+    })
+}
+
+test('text between commands is kept, with its offsets', () => {
+    const items = decode([...encoder.bold(true), 0x41, 0x42, ...encoder.printAndLineFeed()])
+
+    assert.deepEqual(items.map(x => x.type), ['command', 'text', 'command'])
+    assert.deepEqual(items[1], { type: 'text', text: 'AB', bytes: [0x41, 0x42], offset: 3, length: 2 })
+})
+
+test('a command cut off at the end is reported as truncated', () => {
+    const items = decode(encoder.setPrintAreaInPageMode(0, 0, 100, 100).slice(0, 5))
+
+    assert.equal(items.length, 1)
+    assert.equal(items[0]?.type, 'truncated')
+    assert.equal(items[0]?.type == 'truncated' && items[0].cmd, 'ESC W')
+})
+
+test('an unknown command is skipped and decoding carries on', () => {
+    const items = decode([0x1b, 0x01, ...encoder.initialise()])
+
+    assert.deepEqual(items.map(x => x.type), ['unknown', 'command'])
+})
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { once } from 'node:events'
+import net from 'node:net'
+
+import EscPosNetwork from '../EscPosNetwork.js'
+
+/** A stand-in printer on a free local port that records what it receives */
+async function listen(options: net.ServerOpts = {}) {
+    const sockets: net.Socket[] = []
+    const received: number[] = []
+
+    const server = net.createServer(options, socket => {
+        sockets.push(socket)
+        socket.on('data', data => received.push(...data))
+    })
+
+    server.listen(0, '127.0.0.1')
+    await once(server, 'listening')
+
+    const { port } = server.address() as net.AddressInfo
+
+    return { server, port, sockets, received }
+}
+
+test('writes reach the printer', async () => {
+    const { server, port, received } = await listen()
+    const printer = new EscPosNetwork('127.0.0.1', { port })
+
+    await printer.open()
+    await printer.write(Uint8Array.of(0x1b, 0x40, 0x41))
+    await printer.close()
+
+    server.close()
+    await once(server, 'close')
+
+    assert.deepEqual(received, [0x1b, 0x40, 0x41])
+})
+
+test('reconnects after the printer drops the connection', async () => {
+    const { server, port, sockets } = await listen()
+    const printer = new EscPosNetwork('127.0.0.1', { port, reconnectDelay: 10 })
+
+    await printer.open()
+    while (sockets.length == 0) await once(server, 'connection')
+
+    const disconnected = once(printer, 'disconnect')
+    sockets[0]!.destroy()
+    await disconnected
+
+    await once(printer, 'connect')
+    assert.equal(printer.connected, true)
+
+    await printer.close()
+    server.close()
+})
+
+test('open waits for a reconnection under way rather than connecting again', async t => {
+    const { server, port, sockets } = await listen()
+    const printer = new EscPosNetwork('127.0.0.1', { port, reconnectDelay: 10 })
+    const createConnection = t.mock.method(net, 'createConnection')
+
+    await printer.open()
+    while (sockets.length == 0) await once(server, 'connection')
+
+    t.mock.timers.enable({ apis: ['setTimeout'] })
+
+    const disconnected = once(printer, 'disconnect')
+    sockets[0]!.destroy()
+    await disconnected
+
+    // starts the reconnection, which is still connecting when open is called
+    t.mock.timers.tick(10)
+    await printer.open()
+
+    t.mock.timers.reset()
+
+    assert.equal(createConnection.mock.callCount(), 2)
+    assert.equal(printer.connected, true)
+
+    await printer.close()
+    server.close()
+})
+
+test('close gives up on a printer that never closes its end', async () => {
+    const { server, port, sockets } = await listen({ allowHalfOpen: true })
+    const printer = new EscPosNetwork('127.0.0.1', { port, closeTimeout: 50 })
+
+    await printer.open()
+    await printer.close()
+
+    assert.equal(printer.connected, false)
+
+    for (const socket of sockets) socket.destroy()
+    server.close()
+})
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { test, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { once } from 'node:events'
+import { SerialPortMock } from 'serialport'
+
+import EscPosSerial from '../EscPosSerial.js'
+import { setAutomaticStatusBack } from '../EscPosEncoder.js'
+import { TransportError } from '../errors.js'
+
+import type { SerialPortOptions } from '../EscPosSerial.js'
+
+const PATH = '/dev/ttyPRINTER'
+
+beforeEach(() => {
+    SerialPortMock.binding.reset()
+    SerialPortMock.binding.createPort(PATH, { record: true })
+})
+
+/** Creates ports on the mock binding, where beforeEach made the printer's */
+function createMockPort(options: SerialPortOptions) {
+    return new SerialPortMock(options)
+}
+
+/** The mock binding behind the printer's open port */
+function mockPort(printer: EscPosSerial) {
+    return (printer.port as SerialPortMock).port!
+}
+
+/** Everything written to the port since it was opened */
+function recording(printer: EscPosSerial) {
+    return Array.from(mockPort(printer).recording)
+}
+
+test('writes reach the port and replies can be read', async () => {
+    const printer = new EscPosSerial(PATH, { createPort: createMockPort })
+
+    await printer.open()
+    await printer.write(Uint8Array.of(0x1b, 0x40, 0x41))
+
+    assert.deepEqual(recording(printer), [0x1b, 0x40, 0x41])
+
+    const reply = printer.read()
+    mockPort(printer).emitData(Buffer.from([0x5f, 0x41, 0x00]))
+
+    assert.deepEqual(await reply, Buffer.from([0x5f, 0x41, 0x00]))
+
+    await printer.close()
+    assert.equal(printer.connected, false)
+})
+
+test('Automatic Status Back packets become events, and the rest is left to read', async () => {
+    const printer = new EscPosSerial(PATH, { createPort: createMockPort })
+
+    await printer.open()
+
+    const paperOut = once(printer, 'paper-out')
+    const reply = printer.read()
+
+    // a packet reporting paper out, with a reply byte on either side
+    mockPort(printer).emitData(Buffer.from([0x41, 0x10, 0x00, 0x0c, 0x00, 0x42]))
+
+    await paperOut
+    assert.equal(printer.status?.paperEnd, true)
+    assert.deepEqual(await reply, Buffer.from([0x41, 0x42]))
+
+    await printer.close()
+})
+
+test('Automatic Status Back is turned on again when the port is reopened', async () => {
+    const printer = new EscPosSerial(PATH, { createPort: createMockPort })
+    const options = { drawer: true, onlineOffline: false, error: true, rollPaperSensor: false, panelSwitch: false }
+
+    await printer.open()
+    await printer.enableAutomaticStatusBack(options)
+    await printer.close()
+
+    await printer.open()
+    await mockPort(printer).writeOperation
+
+    assert.deepEqual(recording(printer), setAutomaticStatusBack(options))
+
+    await printer.close()
+})
+
+test('port errors are passed on to error listeners', async () => {
+    const printer = new EscPosSerial(PATH, { createPort: createMockPort })
+
+    await printer.open()
+
+    const error = once(printer, 'error')
+    printer.port!.emit('error', new Error('framing error'))
+
+    const [e] = await error
+    assert.ok(e instanceof TransportError)
+    assert.equal((e.cause as Error).message, 'framing error')
+
+    await printer.close()
+})
\ No newline at end of file
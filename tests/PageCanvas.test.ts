@@ -0,0 +1,19 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+
+import PageCanvas from '../PageCanvas.js'
+import { decode } from '../EscPosDecoder.js'
+import { getProfile } from '../profiles.js'
+
+/** The line spacing each text block is printed with */
+function lineSpacings(canvas: PageCanvas) {
+    return decode(canvas.toCommands()).flatMap(x => x.type == 'command' && x.name == 'setLineSpacing' ? [x.args.units] : [])
+}
+
+test('text is spaced 1/6" per line of character height by default', () => {
+    const canvas = new PageCanvas(300, 200, { profile: getProfile('tm-t20') })
+        .text(0, 0, 'Shelf 14B')
+        .text(0, 100, 'Shelf 14C', { size: [2, 2] })
+
+    assert.deepEqual(lineSpacings(canvas), [34, 68])
+})
\ No newline at end of file
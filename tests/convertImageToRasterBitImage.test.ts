@@ -0,0 +1,23 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { getProfile } from '../profiles.js'
+import { convertImageToRasterBitImage } from '../utils/convertImageToRasterBitImage.js'
+
+/** Black, white and transparent pixels */
+const image = { width: 3, height: 1, data: [0, 0, 0, 255, 255, 255, 255, 255, 0, 0, 0, 0] }
+
+test('transparent pixels are left unprinted', () => {
+    assert.deepEqual(convertImageToRasterBitImage(image, { dithering: 'threshold' }), [[1, 0, 0]])
+})
+
+test('transparent pixels are left unprinted when inverted', () => {
+    assert.deepEqual(convertImageToRasterBitImage(image, { dithering: 'threshold', invert: true }), [[0, 1, 0]])
+})
+
+test('wide images are scaled down to the print width of the profile', () => {
+    const wide = { width: 1000, height: 10, data: new Array<number>(1000 * 10 * 4).fill(0) }
+
+    assert.equal(convertImageToRasterBitImage(wide)[0]!.length, 512)
+    assert.equal(convertImageToRasterBitImage(wide, { profile: getProfile('generic-58mm') })[0]!.length, 384)
+})
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { Ajv2020 } from 'ajv/dist/2020.js'
+
+import { decode } from '../EscPosDecoder.js'
+import { renderDocument, validateDocument } from '../document.js'
+import { DocumentError } from '../errors.js'
+
+const schema = JSON.parse(await fs.readFile(new URL('../document.schema.json', import.meta.url), 'utf8'))
+const matchesSchema = new Ajv2020({ strict: false }).compile(schema)
+
+/** Checks a document with validateDocument, returning whether it passed */
+function isValid(document: unknown) {
+    try {
+        validateDocument(document)
+        return true
+    } catch (e) {
+        if (e instanceof DocumentError) return false
+        throw e
+    }
+}
+
+const receipt = {
+    version: 1,
+    codeTable: 'auto',
+    blocks: [
+        { type: 'text', text: 'Corner Shop', style: { bold: true, width: 2, height: 2 }, align: 'centered' },
+        { type: 'divider' },
+        { type: 'two-column', left: 'Coffee', right: '2.50' },
+        {
+            type: 'table',
+            columns: [{ width: 'auto' }, { width: 4, align: 'right' }, { width: '25%', align: 'right' }],
+            rows: [['Item', 'Qty', 'Price'], ['Tea', '1', '1.80']],
+            header: 1,
+            border: 'ascii',
+        },
+        { type: 'barcode', symbology: 'ean13', data: '401234567890', hri: 'below' },
+        { type: 'qr', data: 'https://example.com', moduleSize: 4 },
+        { type: 'feed', lines: 2 },
+        { type: 'cut', feed: 20 },
+        { type: 'drawer', pin: 5 },
+    ],
+}
+
+/** A valid document with its blocks replaced */
+function withBlocks(...blocks: unknown[]) {
+    return { version: 1, blocks }
+}
+
+const valid: [string, unknown][] = [
+    ['a receipt with every kind of block', receipt],
+    ['no blocks', withBlocks()],
+    ['an image from a path', withBlocks({ type: 'image', path: 'logo.png', dithering: 'atkinson' })],
+    ['an image from base64 data', withBlocks({ type: 'image', base64: 'iVBORw0KGgo=', width: 200 })],
+    ['text that is not wrapped', withBlocks({ type: 'text', text: 'a\nb', wrap: false })],
+]
+
+const invalid: [string, unknown][] = [
+    ['not an object', []],
+    ['the wrong version', { version: 2, blocks: [] }],
+    ['no blocks field', { version: 1 }],
+    ['an unknown top-level field', { ...receipt, title: 'Receipt' }],
+    ['an unknown code table', { ...receipt, codeTable: 'pc999' }],
+    ['an unknown encoding', { ...receipt, encoding: 'utf-8' }],
+    ['an unknown block type', withBlocks({ type: 'video' })],
+    ['a block without a type', withBlocks({ text: 'Hello' })],
+    ['an unknown block field', withBlocks({ type: 'text', text: 'Hello', colour: 'red' })],
+    ['text that is not a string', withBlocks({ type: 'text', text: 42 })],
+    ['an unknown font', withBlocks({ type: 'text', text: 'Hello', style: { font: 'C' } })],
+    ['a character size out of range', withBlocks({ type: 'text', text: 'Hello', style: { width: 9 } })],
+    ['a fractional character size', withBlocks({ type: 'text', text: 'Hello', style: { height: 1.5 } })],
+    ['an unknown alignment', withBlocks({ type: 'text', text: 'Hello', align: 'center' })],
+    ['two columns without a right side', withBlocks({ type: 'two-column', left: 'Coffee' })],
+    ['a table without columns', withBlocks({ type: 'table', columns: [], rows: [] })],
+    ['a column width that is not a percentage', withBlocks({ type: 'table', columns: [{ width: 'half' }], rows: [] })],
+    ['a column width of zero', withBlocks({ type: 'table', columns: [{ width: 0 }], rows: [] })],
+    ['a cell that is not a string', withBlocks({ type: 'table', columns: [{}], rows: [[1]] })],
+    ['a divider of two characters', withBlocks({ type: 'divider', character: '=-' })],
+    ['an image with neither a path nor data', withBlocks({ type: 'image' })],
+    ['an image with both a path and data', withBlocks({ type: 'image', path: 'logo.png', base64: 'iVBORw0KGgo=' })],
+    ['a 2D symbology for a barcode', withBlocks({ type: 'barcode', symbology: 'qr', data: '123' })],
+    ['a barcode without a symbology', withBlocks({ type: 'barcode', data: '123' })],
+    ['a barcode module width out of range', withBlocks({ type: 'barcode', symbology: 'code39', data: '123', moduleWidth: 1 })],
+    ['a QR Code error correction level that does not exist', withBlocks({ type: 'qr', data: 'x', errorCorrection: 'X' })],
+    ['a negative feed', withBlocks({ type: 'feed', lines: -1 })],
+    ['a feed of no lines', withBlocks({ type: 'feed', lines: 0 })],
+    ['a drawer pin that does not exist', withBlocks({ type: 'drawer', pin: 3 })],
+]
+
+for (const [name, document] of valid) {
+    test(`accepts ${name}, as does the schema`, () => {
+        assert.equal(isValid(document), true)
+        assert.equal(matchesSchema(document), true, JSON.stringify(matchesSchema.errors))
+    })
+}
+
+for (const [name, document] of invalid) {
+    test(`rejects ${name}, as does the schema`, () => {
+        assert.equal(isValid(document), false)
+        assert.equal(matchesSchema(document), false)
+    })
+}
+
+// rules that relate one field to another, which the schema can't express
+test('rejects rows with the wrong number of cells', () => {
+    assert.equal(isValid(withBlocks({ type: 'table', columns: [{}, {}], rows: [['a']] })), false)
+})
+
+test('rejects more header rows than there are rows', () => {
+    assert.equal(isValid(withBlocks({ type: 'table', columns: [{}], rows: [['a']], header: 2 })), false)
+})
+
+test('renders a receipt', async () => {
+    const items = decode(await renderDocument(receipt))
+
+    // commands by name, and the text in between
+    assert.deepEqual(items.map(x => x.type == 'command' ? x.name : x.type == 'text' ? x.text : x.type), [
+        'initialise',
+        'bold',
+        'selectCharacterSize',
+        'selectJustification',
+        'Corner Shop',
+        'printAndLineFeed',
+        'bold',
+        'selectCharacterSize',
+        'selectJustification',
+        '------------------------------------------',
+        'printAndLineFeed',
+        'Coffee .............................. 2.50',
+        'printAndLineFeed',
+        '+----------------------+------+----------+',
+        'printAndLineFeed',
+        '| Item                 |  Qty |    Price |',
+        'printAndLineFeed',
+        '+----------------------+------+----------+',
+        'printAndLineFeed',
+        '| Tea                  |    1 |     1.80 |',
+        'printAndLineFeed',
+        '+----------------------+------+----------+',
+        'printAndLineFeed',
+        'selectJustification',
+        'selectPrintPositionOfBarcodeHriCharacters',
+        'setBarcodeHeight',
+        'setBarcodeWidth',
+        'printBarcodeEan13',
+        'selectJustification',
+        'selectJustification',
+        'selectQrCodeModel',
+        'setQrCodeModuleSize',
+        'selectQrCodeErrorCorrectionLevel',
+        'storeQrCodeData',
+        'printQrCodeSymbolData',
+        'selectJustification',
+        'printAndFeedLines',
+        'cut',
+        'generatePulse',
+    ])
+})
+
+test('columns wider than the paper are a DocumentError naming the block', async () => {
+    const document = withBlocks({ type: 'text', text: 'Hello' }, { type: 'table', columns: [{ width: 30 }, { width: 30 }], rows: [['a', 'b']] })
+
+    await assert.rejects(renderDocument(document), (e: unknown) => {
+        assert.ok(e instanceof DocumentError)
+        assert.match(e.message, /^document\.blocks\[1\] /)
+        return true
+    })
+})
+
+test('images that are not PNGs are a DocumentError', async () => {
+    await assert.rejects(renderDocument(withBlocks({ type: 'image', base64: 'bm90IGEgUE5H' })), DocumentError)
+})
+
+test('image paths are a DocumentError without the server path if missing, or outside the directory via a symlink', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'document-'))
+    const imageDirectory = path.join(root, 'images')
+
+    await fs.mkdir(imageDirectory)
+    await fs.writeFile(path.join(root, 'secret.png'), 'secret')
+    await fs.symlink(path.join(root, 'secret.png'), path.join(imageDirectory, 'logo.png'))
+
+    try {
+        await assert.rejects(renderDocument(withBlocks({ type: 'image', path: 'missing.png' }), undefined, { imageDirectory }), (e: unknown) => {
+            assert.ok(e instanceof DocumentError)
+            assert.equal(e.message.includes(root), false)
+            return true
+        })
+
+        await assert.rejects(renderDocument(withBlocks({ type: 'image', path: 'logo.png' }), undefined, { imageDirectory }), /outside of the image directory/)
+    } finally {
+        await fs.rm(root, { recursive: true })
+    }
+})
\ No newline at end of file
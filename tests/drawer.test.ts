@@ -0,0 +1,41 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { openDrawer } from '../drawer.js'
+import { DrawerError } from '../errors.js'
+
+/** A printer whose drawer sensor always reads open */
+function drawerPrinter() {
+    const written: number[] = []
+
+    const transport = {
+        async write(data: Uint8Array) {
+            written.push(...data)
+        },
+        async read() {
+            return Buffer.of(0x16)
+        },
+    }
+
+    return { transport, written }
+}
+
+test('the pulse times are sent in the units of the command', async () => {
+    const { transport, written } = drawerPrinter()
+
+    await openDrawer(transport, { pin: 5, onTime: 510, offTime: 0, confirm: false })
+    await openDrawer(transport, { onTime: 800, realTime: true, confirm: false })
+
+    assert.deepEqual(written, [0x1b, 0x70, 1, 255, 0, 0x10, 0x14, 1, 0, 8])
+})
+
+test('pulses the printer can not output are a DrawerError', async () => {
+    const { transport, written } = drawerPrinter()
+
+    await assert.rejects(openDrawer(transport, { onTime: 520 }), DrawerError)
+    await assert.rejects(openDrawer(transport, { offTime: 600 }), DrawerError)
+    await assert.rejects(openDrawer(transport, { onTime: -100 }), DrawerError)
+    await assert.rejects(openDrawer(transport, { onTime: 900, realTime: true }), DrawerError)
+
+    assert.deepEqual(written, [])
+})
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+
+import VirtualPrinter from '../VirtualPrinter.js'
+import { decode } from '../EscPosDecoder.js'
+import { printBitImage } from '../graphics.js'
+
+/** Rows of alternating solid and empty 8-dot stripes, so overprinted bands show up */
+function stripes(width: number, height: number) {
+    return Array.from({ length: height }, (_, y) => new Array<number>(width).fill((y >> 3) & 1 ? 0 : 1))
+}
+
+test('printBitImage advances the paper by 24 dots per band', () => {
+    const bytes = printBitImage(stripes(16, 72))
+    const printer = new VirtualPrinter()
+    const pitches: number[] = []
+
+    for (const item of decode(bytes)) {
+        if (item.type == 'command' && item.name == 'selectBitImageMode') pitches.push(printer.state.lineSpacing)
+
+        printer.print(bytes.slice(item.offset, item.offset + item.length))
+    }
+
+    assert.deepEqual(pitches, [24, 24, 24])
+})
+
+test('printBitImage prints the image rows where they belong', () => {
+    const image = stripes(16, 72)
+    const bitmap = new VirtualPrinter().print(printBitImage(image)).toBitmap()
+
+    for (let y = 0; y < image.length; y++) {
+        assert.equal(bitmap.get(0, y), image[y]![0], `row ${y}`)
+    }
+})
\ No newline at end of file
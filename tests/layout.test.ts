@@ -0,0 +1,20 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { decode } from '../EscPosDecoder.js'
+import { table } from '../layout.js'
+
+import type { TableOptions } from '../layout.js'
+
+test('auto tables are encoded from the same tables they were measured with', () => {
+    const options: TableOptions = { table: 'auto', tables: ['pc437-usa-standard-europe'], lineWidth: 20 }
+    const rows = [['Coffee', '€2.50']]
+    const columns = [{}, { align: 'right' as const }]
+
+    const items = decode(table(rows, columns, options))
+    const text = items.flatMap(x => x.type == 'text' ? [x.text] : [])
+
+    assert.deepEqual(items.filter(x => x.type == 'command' && x.name == 'selectCharacterCodeTable'), [])
+    // € isn't in PC437, so it was measured and printed as the fallback
+    assert.deepEqual(text, ['Coffee         ?2.50'])
+})
\ No newline at end of file
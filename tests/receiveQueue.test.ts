@@ -0,0 +1,34 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { ReceiveQueue } from '../utils/receiveQueue.js'
+import { TransferTimeoutError } from '../errors.js'
+
+test('a waiting read gets no more than it asked for', async () => {
+    const queue = new ReceiveQueue()
+    const first = queue.read(2)
+
+    queue.push([1, 2, 3, 4, 5])
+
+    assert.deepEqual(await first, Buffer.from([1, 2]))
+    assert.deepEqual(await queue.read(2), Buffer.from([3, 4]))
+    assert.deepEqual(await queue.read(), Buffer.from([5]))
+})
+
+test('one push serves every waiting read it has data for', async () => {
+    const queue = new ReceiveQueue()
+    const reads = [queue.read(1), queue.read(1), queue.read(1)]
+
+    queue.push([1, 2])
+
+    assert.deepEqual(await reads[0], Buffer.from([1]))
+    assert.deepEqual(await reads[1], Buffer.from([2]))
+
+    queue.push([3])
+
+    assert.deepEqual(await reads[2], Buffer.from([3]))
+})
+
+test('a read times out when nothing arrives', async () => {
+    await assert.rejects(new ReceiveQueue().read(1, 10), TransferTimeoutError)
+})
\ No newline at end of file
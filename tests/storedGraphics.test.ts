@@ -0,0 +1,72 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { decode } from '../EscPosDecoder.js'
+import { TransferTimeoutError } from '../errors.js'
+import { getNvGraphicsCapacity, storeGraphics } from '../storedGraphics.js'
+
+const logo = [
+    [1, 0, 1, 0, 1, 0, 1, 0],
+    [0, 1, 0, 1, 0, 1, 0, 1],
+]
+
+/** A stand-in printer that answers GS ( L requests and keeps the graphics defined on it */
+function graphicsPrinter() {
+    const keys = new Set<string>()
+    const replies: number[][] = []
+    const commands: string[] = []
+
+    const transport = {
+        async write(data: Uint8Array) {
+            for (const item of decode(data)) {
+                if (item.type != 'command') continue
+
+                commands.push(item.name)
+
+                switch (item.name) {
+                    case 'requestGraphicsKeyCodes':
+                        replies.push([0x37, 0x72, ...Buffer.from([...keys].join('')), 0x40, 0])
+                        break
+                    case 'requestRemainingGraphicsCapacity':
+                        replies.push([0x37, 0x31, ...Buffer.from('65536'), 0])
+                        break
+                    case 'defineGraphics':
+                        keys.add(item.args.key)
+                        break
+                    case 'deleteGraphics':
+                        keys.delete(item.args.key)
+                        break
+                }
+            }
+        },
+        async read() {
+            return Buffer.from(replies.shift() ?? [])
+        },
+    }
+
+    return { transport, commands }
+}
+
+test('logos stored without a manifest are only sent once a session', async () => {
+    const { transport, commands } = graphicsPrinter()
+
+    assert.equal(await storeGraphics(transport, 'LG', logo), true)
+    assert.equal(await storeGraphics(transport, 'LG', logo), false)
+
+    assert.equal(commands.filter(name => name == 'defineGraphics').length, 1)
+})
+
+test('a graphics request gives up when the reply never comes', async t => {
+    t.mock.timers.enable({ apis: ['Date'] })
+
+    // the printer keeps sending real-time status bytes, but never the reply
+    const transport = {
+        async write() {},
+        async read() {
+            t.mock.timers.tick(1000)
+            return Buffer.of(0x16)
+        },
+    }
+
+    await assert.rejects(getNvGraphicsCapacity(transport), TransferTimeoutError)
+})
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { clearBuffers, initialise } from '../EscPosEncoder.js'
+import { TransferTimeoutError, WriteAbortedError } from '../errors.js'
+
+export type WriteOptions = {
+    /** Called after every chunk with the number of bytes handed to the printer so far */
+    onProgress?: (sent: number, total: number) => void
+    /**
+     * Cancels the job. The chunk in flight is finished, then the printer's
+     * buffers are cleared with DLE DC4 and it is reset with ESC @, so nothing
+     * half-sent is left waiting for the rest of its data.
+     */
+    signal?: AbortSignal
+}
+
+export type ChunkOptions = {
+    chunkSize: number
+    /** How long a single chunk may take, in ms. 0 waits forever */
+    writeTimeout: number
+}
+
+function withTimeout(promise: Promise<void>, timeout: number) {
+    if (timeout <= 0) return promise
+
+    return new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            reject(new TransferTimeoutError(`timed out after ${timeout}ms waiting for the printer to accept data`))
+        }, timeout)
+
+        promise.then(
+            () => {
+                clearTimeout(timer)
+                resolve()
+            },
+            e => {
+                clearTimeout(timer)
+                reject(e)
+            },
+        )
+    })
+}
+
+/**
+ * Hands `data` to `writeChunk` a chunk at a time, waiting for each one to be
+ * accepted before sending the next, so a slow or busy printer holds the job
+ * back instead of dropping data.
+ */
+export async function writeInChunks(
+    data: Uint8Array,
+    writeChunk: (chunk: Uint8Array) => Promise<void>,
+    { chunkSize, writeTimeout }: ChunkOptions,
+    { onProgress, signal }: WriteOptions = {},
+) {
+    for (let offset = 0; offset < data.byteLength; offset += chunkSize) {
+        if (signal?.aborted) {
+            await withTimeout(writeChunk(Uint8Array.from([...clearBuffers(), ...initialise()])), writeTimeout)
+            throw new WriteAbortedError(`write was cancelled after ${offset} of ${data.byteLength} bytes`, { cause: signal.reason })
+        }
+
+        const chunk = data.subarray(offset, offset + chunkSize)
+
+        await withTimeout(writeChunk(chunk), writeTimeout)
+        onProgress?.(offset + chunk.byteLength, data.byteLength)
+    }
+}
\ No newline at end of file
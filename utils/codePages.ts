@@ -0,0 +1,116 @@
+import type { CharacterCodeTable } from '../EscPosEncoder.js'
+
+/*
+The characters for bytes 0x80 to 0xFF in each character code table, generated
+from the code page definitions. Bytes below 0x80 are ASCII in every table.
+*/
+
+/** Marks bytes that have no character in a table */
+export const UNMAPPED = '\ufffd'
+
+/** JIS X 0201 half-width katakana in 0xA1 to 0xDF, the rest is graphics that have no Unicode equivalent */
+function katakana() {
+    let s = ''
+
+    for (let byte = 0x80; byte <= 0xff; byte++) {
+        s += byte >= 0xa1 && byte <= 0xdf ? String.fromCharCode(0xff61 + byte - 0xa1) : UNMAPPED
+    }
+
+    return s
+}
+
+export const codePages: Record<CharacterCodeTable, string> = {
+    'pc437-usa-standard-europe': [
+        'ÇüéâäàåçêëèïîìÄÅ',
+        'ÉæÆôöòûùÿÖÜ¢£¥₧ƒ',
+        'áíóúñÑªº¿⌐¬½¼¡«»',
+        '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐',
+        '└┴┬├─┼╞╟╚╔╩╦╠═╬╧',
+        '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀',
+        'αßΓπΣσµτΦΘΩδ∞φε∩',
+        '≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+    ].join(''),
+    'pc850-multilingual': [
+        'ÇüéâäàåçêëèïîìÄÅ',
+        'ÉæÆôöòûùÿÖÜø£Ø×ƒ',
+        'áíóúñÑªº¿®¬½¼¡«»',
+        '░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐',
+        '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤',
+        'ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀',
+        'ÓßÔÒõÕµþÞÚÛÙýÝ¯´',
+        '\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0',
+    ].join(''),
+    'pc860-portuguese': [
+        'ÇüéâãàÁçêÊèÍÔìÃÂ',
+        'ÉÀÈôõòÚùÌÕÜ¢£Ù₧Ó',
+        'áíóúñÑªº¿Ò¬½¼¡«»',
+        '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐',
+        '└┴┬├─┼╞╟╚╔╩╦╠═╬╧',
+        '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀',
+        'αßΓπΣσµτΦΘΩδ∞φε∩',
+        '≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+    ].join(''),
+    'pc863-canadian-french': [
+        'ÇüéâÂà¶çêëèïî‗À§',
+        'ÉÈÊôËÏûù¤ÔÜ¢£ÙÛƒ',
+        '¦´óú¨¸³¯Î⌐¬½¼¾«»',
+        '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐',
+        '└┴┬├─┼╞╟╚╔╩╦╠═╬╧',
+        '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀',
+        'αßΓπΣσµτΦΘΩδ∞φε∩',
+        '≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+    ].join(''),
+    'pc865-nordic': [
+        'ÇüéâäàåçêëèïîìÄÅ',
+        'ÉæÆôöòûùÿÖÜø£Ø₧ƒ',
+        'áíóúñÑªº¿⌐¬½¼¡«¤',
+        '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐',
+        '└┴┬├─┼╞╟╚╔╩╦╠═╬╧',
+        '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀',
+        'αßΓπΣσµτΦΘΩδ∞φε∩',
+        '≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+    ].join(''),
+    wpc1252: [
+        '€\ufffd‚ƒ„…†‡ˆ‰Š‹Œ\ufffdŽ\ufffd',
+        '\ufffd‘’“”•–—˜™š›œ\ufffdžŸ',
+        '\u00a0¡¢£¤¥¦§¨©ª«¬\u00ad®¯',
+        '°±²³´µ¶·¸¹º»¼½¾¿',
+        'ÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏ',
+        'ÐÑÒÓÔÕÖ×ØÙÚÛÜÝÞß',
+        'àáâãäåæçèéêëìíîï',
+        'ðñòóôõö÷øùúûüýþÿ',
+    ].join(''),
+    'pc866-cyrillic-2': [
+        'АБВГДЕЖЗИЙКЛМНОП',
+        'РСТУФХЦЧШЩЪЫЬЭЮЯ',
+        'абвгдежзийклмноп',
+        '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐',
+        '└┴┬├─┼╞╟╚╔╩╦╠═╬╧',
+        '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀',
+        'рстуфхцчшщъыьэюя',
+        'ЁёЄєЇїЎў°∙·√№¤■\u00a0',
+    ].join(''),
+    'pc852-latin-2': [
+        'ÇüéâäůćçłëŐőîŹÄĆ',
+        'ÉĹĺôöĽľŚśÖÜŤťŁ×č',
+        'áíóúĄąŽžĘę¬źČş«»',
+        '░▒▓│┤ÁÂĚŞ╣║╗╝Żż┐',
+        '└┴┬├─┼Ăă╚╔╩╦╠═╬¤',
+        'đĐĎËďŇÍÎě┘┌█▄ŢŮ▀',
+        'ÓßÔŃńňŠšŔÚŕŰýÝţ´',
+        '\u00ad˝˛ˇ˘§÷¸°¨˙űŘř■\u00a0',
+    ].join(''),
+    'pc858-euro': [
+        'ÇüéâäàåçêëèïîìÄÅ',
+        'ÉæÆôöòûùÿÖÜø£Ø×ƒ',
+        'áíóúñÑªº¿®¬½¼¡«»',
+        '░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐',
+        '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤',
+        'ðÐÊËÈ€ÍÎÏ┘┌█▄¦Ì▀',
+        'ÓßÔÒõÕµþÞÚÛÙýÝ¯´',
+        '\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0',
+    ].join(''),
+    katakana: katakana(),
+    // user-defined, so nothing can be assumed about it
+    'page-255': UNMAPPED.repeat(128),
+}
\ No newline at end of file
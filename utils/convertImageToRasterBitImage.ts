@@ -1,35 +1,220 @@
 import parsePng from 'parse-png'
 import fs from 'fs/promises'
 
+import { DEFAULT_PROFILE } from '../profiles.js'
+
 import type { PNGWithMetadata } from 'pngjs'
+import type { PrinterProfile } from '../profiles.js'
+
+/** 8-bit RGBA pixels, row by row, as decoded by pngjs */
+export type RgbaImage = {
+    width: number
+    height: number
+    data: ArrayLike<number>
+}
+
+/** Luminance from 0 (black) to 255 (white), one value per pixel */
+export type GrayscaleImage = {
+    width: number
+    height: number
+    data: Float32Array
+}
+
+export type Dithering = 'floyd-steinberg' | 'atkinson' | 'bayer' | 'threshold'
+
+export type ImageConversionOptions = {
+    /** Defaults to floyd-steinberg, which keeps the most detail in photos. Use threshold for line art and text */
+    dithering?: Dithering
+    /** Pixels darker than this (0 to 255) are printed, with threshold dithering. Defaults to 128 */
+    threshold?: number
+    /** Width to scale the image to, in dots. The height follows, keeping the aspect ratio */
+    width?: number
+    /** The printer, for its print width. Defaults to the TM-T88IV */
+    profile?: PrinterProfile
+    /** Images wider than this are scaled down to fit. Defaults to the profile's print width */
+    maxWidth?: number
+    /** Clockwise rotation in degrees, applied before scaling */
+    rotate?: 0 | 90 | 180 | 270
+    /** Prints the light parts instead of the dark ones */
+    invert?: boolean
+}
+
+/**
+ * Converts RGBA pixels to luminance (ITU-R BT.601), compositing transparent
+ * pixels onto the background, white paper by default
+ */
+export function toGrayscale(image: RgbaImage, background: number = 255): GrayscaleImage {
+    const data = new Float32Array(image.width * image.height)
+
+    for (let i = 0; i < data.length; i++) {
+        const r = image.data[i * 4] ?? 0
+        const g = image.data[i * 4 + 1] ?? 0
+        const b = image.data[i * 4 + 2] ?? 0
+        const a = (image.data[i * 4 + 3] ?? 255) / 255
+
+        data[i] = (0.299 * r + 0.587 * g + 0.114 * b) * a + background * (1 - a)
+    }
+
+    return { width: image.width, height: image.height, data }
+}
+
+/** Rotates clockwise by a multiple of 90 degrees */
+export function rotate(image: GrayscaleImage, degrees: 0 | 90 | 180 | 270): GrayscaleImage {
+    if (degrees == 0) return image
+
+    const { width, height } = image
+    const turned = degrees == 90 || degrees == 270
+    const rotated = new Float32Array(width * height)
+    const newWidth = turned ? height : width
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const [nx, ny] = degrees == 90 ? [height - 1 - y, x]
+                : degrees == 180 ? [width - 1 - x, height - 1 - y]
+                : [y, width - 1 - x]
+
+            rotated[ny * newWidth + nx] = image.data[y * width + x]!
+        }
+    }
+
+    return { width: newWidth, height: turned ? width : height, data: rotated }
+}
+
+/**
+ * Scales to the given width, keeping the aspect ratio. Each new pixel is the
+ * average of the pixels it covers, so thin lines don't vanish when shrinking.
+ */
+export function resize(image: GrayscaleImage, width: number): GrayscaleImage {
+    if (width == image.width) return image
+
+    const height = Math.max(1, Math.round(image.height * width / image.width))
+    const scaleX = image.width / width
+    const scaleY = image.height / height
+    const data = new Float32Array(width * height)
+
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.floor(y * scaleY)
+        const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY))
+
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.floor(x * scaleX)
+            const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX))
+
+            let sum = 0
+
+            for (let sy = y0; sy < y1; sy++) {
+                for (let sx = x0; sx < x1; sx++) sum += image.data[sy * image.width + sx]!
+            }
+
+            data[y * width + x] = sum / ((y1 - y0) * (x1 - x0))
+        }
+    }
+
+    return { width, height, data }
+}
 
-export function convertImageToRasterBitImage(png: PNGWithMetadata) {
-    const data = []
+/** Where error diffusion spreads a pixel's error: [dx, dy, weight] */
+const diffusion: Record<'floyd-steinberg' | 'atkinson', [number, number, number][]> = {
+    'floyd-steinberg': [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]],
+    // only passes on 6/8 of the error, which keeps highlights and shadows clean
+    atkinson: [[1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8]],
+}
+
+/** 8 × 8 Bayer matrix, built up from the 2 × 2 one */
+const bayer = (() => {
+    let matrix = [[0, 2], [3, 1]]
 
-    for (let y = 0; y < png.height; y++) {
-        const row = []
-        for (let x = 0; x < png.width; x++) {
-            const i = (y * png.width + x) * 4
+    while (matrix.length < 8) {
+        const size = matrix.length
 
-            const r = png.data[i]
-            const g = png.data[i + 1]
-            const b = png.data[i + 2]
-            const a = png.data[i + 3]
+        matrix = Array.from({ length: size * 2 }, (_, y) => Array.from({ length: size * 2 }, (_, x) => {
+            const quadrant = [0, 2, 3, 1][(y >= size ? 2 : 0) + (x >= size ? 1 : 0)]!
+
+            return matrix[y % size]![x % size]! * 4 + quadrant
+        }))
+    }
 
-            const value = r ?? 0
+    return matrix
+})()
 
-            row.push(value == 0 ? 1 : 0)
+/** Turns luminance into dots, 1 for black */
+export function dither(image: GrayscaleImage, method: Dithering = 'floyd-steinberg', threshold: number = 128) {
+    const { width, height } = image
+    const rows: number[][] = []
+
+    if (method == 'threshold' || method == 'bayer') {
+        for (let y = 0; y < height; y++) {
+            const row: number[] = []
+
+            for (let x = 0; x < width; x++) {
+                const limit = method == 'bayer' ? (bayer[y % 8]![x % 8]! + 0.5) * 256 / 64 : threshold
+
+                row.push(image.data[y * width + x]! < limit ? 1 : 0)
+            }
+
+            rows.push(row)
         }
 
-        data.push(row)
+        return rows
     }
 
-    return data
+    const data = Float32Array.from(image.data)
+
+    for (let y = 0; y < height; y++) {
+        const row: number[] = []
+
+        for (let x = 0; x < width; x++) {
+            const value = data[y * width + x]!
+            const black = value < 128
+
+            row.push(black ? 1 : 0)
+
+            const error = value - (black ? 0 : 255)
+
+            for (const [dx, dy, weight] of diffusion[method]) {
+                const nx = x + dx
+                const ny = y + dy
+
+                if (nx >= 0 && nx < width && ny < height) data[ny * width + nx]! += error * weight
+            }
+        }
+
+        rows.push(row)
+    }
+
+    return rows
+}
+
+/**
+ * Converts an image into the rows of dots that printRasterBitImage takes:
+ * grayscale, rotated, scaled to fit the paper, optionally inverted and dithered.
+ */
+export function convertImageToRasterBitImage(png: RgbaImage, options: ImageConversionOptions = {}) {
+    const {
+        dithering = 'floyd-steinberg',
+        threshold = 128,
+        profile = DEFAULT_PROFILE,
+        maxWidth = profile.printWidth,
+        rotate: degrees = 0,
+        invert = false,
+    } = options
+
+    // inverted images go onto black, so that transparent areas still come out as paper
+    let image = rotate(toGrayscale(png, invert ? 0 : 255), degrees)
+    image = resize(image, Math.max(1, Math.round(Math.min(options.width ?? image.width, maxWidth))))
+
+    if (invert) image.data.forEach((x, i) => image.data[i] = 255 - x)
+
+    return dither(image, dithering, threshold)
+}
+
+export async function convertImageFromFileToRasterBitImage(path: string, options: ImageConversionOptions = {}) {
+    return convertPngToRasterBitImage(await fs.readFile(path), options)
 }
 
-export async function convertImageFromFileToRasterBitImage(path: string) {
-    const file = await fs.readFile(path)
-    const png: PNGWithMetadata = await parsePng(file)
+/** Decodes a PNG file's contents and converts it, as convertImageToRasterBitImage */
+export async function convertPngToRasterBitImage(file: Uint8Array, options: ImageConversionOptions = {}) {
+    const png: PNGWithMetadata = await parsePng(Buffer.from(file))
 
     /* {
         width: 200,
@@ -44,5 +229,5 @@ export async function convertImageFromFileToRasterBitImage(path: string) {
         data: <Buffer 29 48 4d ...>,
     } */
 
-    return convertImageToRasterBitImage(png)
+    return convertImageToRasterBitImage(png, options)
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+/*
+Multi-byte character encodings for the printer's Kanji character mode (FS &).
+Node can decode these but not encode them, so the tables are built by decoding
+every 2 byte code once and reversing the result.
+*/
+
+export type MultiByteEncoding = 'shift-jis' | 'gb18030' | 'euc-kr'
+
+type EncodingRanges = {
+    /** WHATWG label for TextDecoder */
+    label: string
+    first: [number, number]
+    second: [number, number]
+}
+
+const encodings: Record<MultiByteEncoding, EncodingRanges> = {
+    // Japanese models
+    'shift-jis': { label: 'shift_jis', first: [0x81, 0xfc], second: [0x40, 0xfc] },
+    // Simplified Chinese models. Only the 2 byte codes, which cover GBK
+    gb18030: { label: 'gb18030', first: [0x81, 0xfe], second: [0x40, 0xfe] },
+    // Korean models print KS X 1001 (KS C 5601), not the Windows extensions TextDecoder also knows
+    'euc-kr': { label: 'euc-kr', first: [0xa1, 0xfe], second: [0xa1, 0xfe] },
+}
+
+const codeMaps = new Map<MultiByteEncoding, Map<string, number[]>>()
+
+function codeMap(encoding: MultiByteEncoding) {
+    let map = codeMaps.get(encoding)
+
+    if (!map) {
+        map = new Map()
+
+        const { label, first, second } = encodings[encoding]
+        const decoder = new TextDecoder(label)
+
+        for (let a = first[0]; a <= first[1]; a++) {
+            for (let b = second[0]; b <= second[1]; b++) {
+                const character = decoder.decode(Uint8Array.of(a, b))
+
+                // invalid codes come out as U+FFFD, and codes that aren't 2 bytes as 2 characters
+                if ([...character].length != 1 || character == '\ufffd') continue
+
+                // where a character has several codes (like the NEC and IBM extensions in Shift_JIS) the first is the standard one
+                if (!map.has(character)) map.set(character, [a, b])
+            }
+        }
+
+        codeMaps.set(encoding, map)
+    }
+
+    return map
+}
+
+/** The 2 bytes for a character in a multi-byte encoding, or undefined if it doesn't have one */
+export function encodeMultiByteCharacter(character: string, encoding: MultiByteEncoding) {
+    return codeMap(encoding).get(character)
+}
\ No newline at end of file
@@ -0,0 +1,430 @@
+import { BarcodeError } from '../errors.js'
+
+import type { QrCodeErrorCorrectionLevel } from '../barcodes.js'
+
+/*
+A QR Code Model 2 encoder, after ISO/IEC 18004. Data is always encoded in byte
+mode, which covers everything (strings as UTF-8) at the cost of slightly
+larger symbols for purely numeric data.
+
+Tables are indexed by version, index 0 is unused.
+*/
+
+const eccCodewordsPerBlock: Record<QrCodeErrorCorrectionLevel, number[]> = {
+    L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+    Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+}
+
+const errorCorrectionBlocks: Record<QrCodeErrorCorrectionLevel, number[]> = {
+    L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+    M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+    Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+    H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+}
+
+/** The two bits for the level in the format information */
+const formatBits: Record<QrCodeErrorCorrectionLevel, number> = {
+    L: 1,
+    M: 0,
+    Q: 3,
+    H: 2,
+}
+
+function getBit(x: number, i: number) {
+    return ((x >>> i) & 1) != 0
+}
+
+/** Number of modules that are left for data and error correction once the function patterns are drawn */
+function rawDataModules(version: number) {
+    let result = (16 * version + 128) * version + 64
+
+    if (version >= 2) {
+        const alignments = Math.floor(version / 7) + 2
+        result -= (25 * alignments - 10) * alignments - 55
+        if (version >= 7) result -= 36
+    }
+
+    return result
+}
+
+function dataCodewords(version: number, level: QrCodeErrorCorrectionLevel) {
+    return Math.floor(rawDataModules(version) / 8)
+        - eccCodewordsPerBlock[level][version]! * errorCorrectionBlocks[level][version]!
+}
+
+function alignmentPatternPositions(version: number, size: number) {
+    if (version == 1) return []
+
+    const count = Math.floor(version / 7) + 2
+    const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2
+    const positions = [6]
+
+    for (let position = size - 7; positions.length < count; position -= step) {
+        positions.splice(1, 0, position)
+    }
+
+    return positions
+}
+
+/** Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1 */
+function multiply(x: number, y: number) {
+    let z = 0
+
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d)
+        z ^= ((y >>> i) & 1) * x
+    }
+
+    return z
+}
+
+function reedSolomonDivisor(degree: number) {
+    const result: number[] = new Array<number>(degree - 1).fill(0)
+    result.push(1)
+
+    let root = 1
+
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = multiply(result[j]!, root)
+            if (j + 1 < result.length) result[j]! ^= result[j + 1]!
+        }
+
+        root = multiply(root, 0x02)
+    }
+
+    return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+    const result = divisor.map(() => 0)
+
+    for (const byte of data) {
+        const factor = byte ^ result.shift()!
+        result.push(0)
+        divisor.forEach((coefficient, i) => result[i]! ^= multiply(coefficient, factor))
+    }
+
+    return result
+}
+
+/** Splits the data into blocks, adds the error correction to each and interleaves them */
+function addErrorCorrection(data: number[], version: number, level: QrCodeErrorCorrectionLevel) {
+    const blockCount = errorCorrectionBlocks[level][version]!
+    const eccLength = eccCodewordsPerBlock[level][version]!
+    const rawCodewords = Math.floor(rawDataModules(version) / 8)
+    const shortBlocks = blockCount - rawCodewords % blockCount
+    const shortBlockLength = Math.floor(rawCodewords / blockCount)
+
+    const divisor = reedSolomonDivisor(eccLength)
+    const blocks: number[][] = []
+
+    for (let i = 0, k = 0; i < blockCount; i++) {
+        const block = data.slice(k, k + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1))
+        k += block.length
+
+        const ecc = reedSolomonRemainder(block, divisor)
+
+        // padding so all blocks line up when interleaving, skipped below
+        if (i < shortBlocks) block.push(0)
+
+        blocks.push([...block, ...ecc])
+    }
+
+    const result: number[] = []
+
+    for (let i = 0; i < blocks[0]!.length; i++) {
+        blocks.forEach((block, j) => {
+            if (i != shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]!)
+        })
+    }
+
+    return result
+}
+
+/** Mode indicator, character count, data, terminator and padding, as codewords */
+function dataCodewordsFor(bytes: Uint8Array, version: number, capacity: number) {
+    const bits: number[] = []
+
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+    }
+
+    append(0b0100, 4)
+    append(bytes.length, version <= 9 ? 8 : 16)
+    for (const byte of bytes) append(byte, 8)
+
+    append(0, Math.min(4, capacity * 8 - bits.length))
+    append(0, (8 - bits.length % 8) % 8)
+
+    const codewords: number[] = []
+
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+    }
+
+    for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+        codewords.push(pad)
+    }
+
+    return codewords
+}
+
+const masks: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 == 0,
+    (_, y) => y % 2 == 0,
+    (x) => x % 3 == 0,
+    (x, y) => (x + y) % 3 == 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 == 0,
+    (x, y) => x * y % 2 + x * y % 3 == 0,
+    (x, y) => (x * y % 2 + x * y % 3) % 2 == 0,
+    (x, y) => ((x + y) % 2 + x * y % 3) % 2 == 0,
+]
+
+class QrSymbol {
+    readonly size: number
+    readonly modules: boolean[][]
+    /** Modules of the finder, timing, alignment and format patterns, which masks leave alone */
+    readonly isFunction: boolean[][]
+
+    constructor(readonly version: number, readonly level: QrCodeErrorCorrectionLevel) {
+        this.size = version * 4 + 17
+        this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+        this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+
+        this.drawFunctionPatterns()
+    }
+
+    private set(x: number, y: number, dark: boolean) {
+        this.modules[y]![x] = dark
+        this.isFunction[y]![x] = true
+    }
+
+    private drawFunctionPatterns() {
+        const { size } = this
+
+        for (let i = 0; i < size; i++) {
+            this.set(6, i, i % 2 == 0)
+            this.set(i, 6, i % 2 == 0)
+        }
+
+        this.drawFinderPattern(3, 3)
+        this.drawFinderPattern(size - 4, 3)
+        this.drawFinderPattern(3, size - 4)
+
+        const positions = alignmentPatternPositions(this.version, size)
+        const last = positions.length - 1
+
+        positions.forEach((x, i) => {
+            positions.forEach((y, j) => {
+                // these would overlap the finder patterns
+                if ((i == 0 && j == 0) || (i == 0 && j == last) || (i == last && j == 0)) return
+
+                for (let dy = -2; dy <= 2; dy++) {
+                    for (let dx = -2; dx <= 2; dx++) {
+                        this.set(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) != 1)
+                    }
+                }
+            })
+        })
+
+        // reserves the format areas, drawn for real once the mask is chosen
+        this.drawFormatBits(0)
+        this.drawVersion()
+    }
+
+    /** The finder pattern with its separator, centred on x, y */
+    private drawFinderPattern(x: number, y: number) {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy))
+                const xx = x + dx
+                const yy = y + dy
+
+                if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+                    this.set(xx, yy, distance != 2 && distance != 4)
+                }
+            }
+        }
+    }
+
+    drawFormatBits(mask: number) {
+        const { size } = this
+        const data = formatBits[this.level] << 3 | mask
+
+        let remainder = data
+        for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+
+        const bits = (data << 10 | remainder) ^ 0x5412
+
+        for (let i = 0; i <= 5; i++) this.set(8, i, getBit(bits, i))
+        this.set(8, 7, getBit(bits, 6))
+        this.set(8, 8, getBit(bits, 7))
+        this.set(7, 8, getBit(bits, 8))
+        for (let i = 9; i < 15; i++) this.set(14 - i, 8, getBit(bits, i))
+
+        for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, getBit(bits, i))
+        for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, getBit(bits, i))
+
+        // the dark module, always set
+        this.set(8, size - 8, true)
+    }
+
+    private drawVersion() {
+        if (this.version < 7) return
+
+        let remainder = this.version
+        for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+
+        const bits = this.version << 12 | remainder
+
+        for (let i = 0; i < 18; i++) {
+            const a = this.size - 11 + i % 3
+            const b = Math.floor(i / 3)
+
+            this.set(a, b, getBit(bits, i))
+            this.set(b, a, getBit(bits, i))
+        }
+    }
+
+    /** Places the codewords in the zigzag pattern, two columns at a time from the bottom right */
+    drawCodewords(codewords: number[]) {
+        const { size } = this
+        let i = 0
+
+        for (let right = size - 1; right >= 1; right -= 2) {
+            // skips the vertical timing pattern
+            if (right == 6) right = 5
+
+            for (let vertical = 0; vertical < size; vertical++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j
+                    const upward = ((right + 1) & 2) == 0
+                    const y = upward ? size - 1 - vertical : vertical
+
+                    if (!this.isFunction[y]![x] && i < codewords.length * 8) {
+                        this.modules[y]![x] = getBit(codewords[i >>> 3]!, 7 - (i & 7))
+                        i++
+                    }
+                }
+            }
+        }
+    }
+
+    /** XORs the data modules with a mask pattern. Applying the same mask twice undoes it */
+    applyMask(mask: number) {
+        const pattern = masks[mask]!
+
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (!this.isFunction[y]![x] && pattern(x, y)) this.modules[y]![x] = !this.modules[y]![x]
+            }
+        }
+    }
+
+    /** Scores how hard the symbol is to scan, lower is better */
+    penalty() {
+        const { size, modules } = this
+        let penalty = 0
+
+        const lines: boolean[][] = [
+            ...modules,
+            ...modules.map((_, x) => modules.map(row => row[x]!)),
+        ]
+
+        // runs of five or more modules of the same colour
+        for (const line of lines) {
+            let run = 1
+
+            for (let i = 1; i <= size; i++) {
+                if (i < size && line[i] == line[i - 1]) {
+                    run++
+                } else {
+                    if (run >= 5) penalty += run - 2
+                    run = 1
+                }
+            }
+        }
+
+        // 2 × 2 blocks of the same colour
+        for (let y = 0; y < size - 1; y++) {
+            for (let x = 0; x < size - 1; x++) {
+                const colour = modules[y]![x]
+
+                if (colour == modules[y]![x + 1] && colour == modules[y + 1]![x] && colour == modules[y + 1]![x + 1]) {
+                    penalty += 3
+                }
+            }
+        }
+
+        // patterns that look like a finder pattern, 1:1:3:1:1 with four light modules on one side
+        const finderLike = [
+            '10111010000',
+            '00001011101',
+        ]
+
+        for (const line of lines) {
+            const s = line.map(x => x ? '1' : '0').join('')
+
+            for (const pattern of finderLike) {
+                for (let i = s.indexOf(pattern); i >= 0; i = s.indexOf(pattern, i + 1)) penalty += 40
+            }
+        }
+
+        // dark modules far from half of the symbol
+        const dark = modules.reduce((sum, row) => sum + row.filter(x => x).length, 0)
+        const total = size * size
+
+        penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+
+        return penalty
+    }
+}
+
+/**
+ * Encodes the data in the smallest QR Code that fits it at the given error
+ * correction level, and returns the modules, one row of 0 (light) and 1
+ * (dark) per line, without a quiet zone.
+ */
+export function encodeQrCode(data: Uint8Array, level: QrCodeErrorCorrectionLevel = 'M') {
+    let version = 1
+
+    // mode indicator, character count and data; the count is 16 bits from version 10 up
+    const bitsNeeded = (version: number) => 4 + (version <= 9 ? 8 : 16) + data.length * 8
+
+    while (version <= 40 && bitsNeeded(version) > dataCodewords(version, level) * 8) version++
+
+    if (version > 40) {
+        throw new BarcodeError(`${data.length} bytes is too much data for a QR Code with error correction level ${level}`)
+    }
+
+    const capacity = dataCodewords(version, level)
+    const codewords = addErrorCorrection(dataCodewordsFor(data, version, capacity), version, level)
+
+    const symbol = new QrSymbol(version, level)
+    symbol.drawCodewords(codewords)
+
+    let bestMask = 0
+    let bestPenalty = Infinity
+
+    for (let mask = 0; mask < masks.length; mask++) {
+        symbol.applyMask(mask)
+        symbol.drawFormatBits(mask)
+
+        const penalty = symbol.penalty()
+
+        if (penalty < bestPenalty) {
+            bestMask = mask
+            bestPenalty = penalty
+        }
+
+        symbol.applyMask(mask)
+    }
+
+    symbol.applyMask(bestMask)
+    symbol.drawFormatBits(bestMask)
+
+    return symbol.modules.map(row => row.map(x => x ? 1 : 0))
+}
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { TransferTimeoutError } from '../errors.js'
+
+type Reader = {
+    length?: number
+    resolve: (data: Buffer) => void
+    reject: (e: Error) => void
+}
+
+/**
+ * Holds data received from a printer in the background until something reads it.
+ *
+ * Transports that read continuously (a polled USB endpoint, a socket) push
+ * whatever isn't a status packet in here, and read() hands it out in order.
+ */
+export class ReceiveQueue {
+    private received: number[] = []
+    private readers: Reader[] = []
+
+    push(data: Uint8Array | number[]) {
+        for (const byte of data) this.received.push(byte)
+
+        while (this.readers.length > 0 && this.received.length > 0) {
+            const reader = this.readers.shift()!
+
+            reader.resolve(this.take(reader.length))
+        }
+    }
+
+    /**
+     * Resolves with up to `length` bytes as soon as there are any, or rejects
+     * after `timeout` ms. A timeout of 0 waits forever.
+     */
+    read(length?: number, timeout: number = 0) {
+        if (this.received.length > 0) return Promise.resolve(this.take(length))
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined = undefined
+
+            const reader: Reader = {
+                length,
+                resolve: data => {
+                    clearTimeout(timer)
+                    resolve(data)
+                },
+                reject: e => {
+                    clearTimeout(timer)
+                    reject(e)
+                },
+            }
+
+            if (timeout > 0) {
+                timer = setTimeout(() => {
+                    this.readers = this.readers.filter(x => x != reader)
+                    reject(new TransferTimeoutError(`timed out after ${timeout}ms waiting for data from the printer`))
+                }, timeout)
+            }
+
+            this.readers.push(reader)
+        })
+    }
+
+    /** Removes up to `length` bytes from the front of the queue, leaving the rest for the next read */
+    private take(length?: number) {
+        return Buffer.from(this.received.splice(0, length ?? this.received.length))
+    }
+
+    /** Fails every waiting read, e.g. when the connection goes away */
+    cancel(e: Error) {
+        const readers = this.readers
+        this.readers = []
+        this.received = []
+
+        for (const reader of readers) reader.reject(e)
+    }
+}
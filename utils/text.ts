@@ -1,3 +1,290 @@
-export function text(s: string) {
-    return s.split('').map(x => x.charCodeAt(0))
-}
\ No newline at end of file
+import {
+    cancelKanjiCharacterMode,
+    selectCharacterCodeTable,
+    selectKanjiCharacterMode,
+} from '../EscPosEncoder.js'
+import { codePages, UNMAPPED } from './codePages.js'
+import { encodeMultiByteCharacter } from './multiByte.js'
+
+import type { CharacterCodeTable } from '../EscPosEncoder.js'
+import type { MultiByteEncoding } from './multiByte.js'
+
+/**
+ * What to print instead of a character the table doesn't have: a replacement
+ * string, or a function that returns one, such as transliterate
+ */
+export type TextFallback = string | ((character: string) => string)
+
+export type EncodeTextOptions = {
+    /** Defaults to ? */
+    fallback?: TextFallback
+}
+
+/** The tables auto mode picks from, in order of preference */
+export const AUTO_TABLES: CharacterCodeTable[] = [
+    'pc437-usa-standard-europe',
+    'pc858-euro',
+    'wpc1252',
+    'pc852-latin-2',
+    'pc866-cyrillic-2',
+    'pc850-multilingual',
+    'pc860-portuguese',
+    'pc863-canadian-french',
+    'pc865-nordic',
+    'katakana',
+]
+
+const byteMaps = new Map<CharacterCodeTable, Map<string, number>>()
+
+/** Character to byte, for the upper half of a table. Built the first time the table is used */
+function byteMap(table: CharacterCodeTable) {
+    let map = byteMaps.get(table)
+
+    if (!map) {
+        map = new Map()
+
+        for (let i = 0; i < 128; i++) {
+            const character = codePages[table][i]!
+
+            if (character != UNMAPPED && !map.has(character)) map.set(character, 0x80 + i)
+        }
+
+        byteMaps.set(table, map)
+    }
+
+    return map
+}
+
+/** The byte for a character in a table, or undefined if the table doesn't have it */
+export function encodeCharacter(character: string, table: CharacterCodeTable) {
+    const code = character.codePointAt(0) ?? 0
+
+    if (character.length == 1 && code < 0x80) return code
+
+    return byteMap(table).get(character)
+}
+
+const transliterations: Record<string, string> = {
+    '€': 'EUR',
+    '‘': "'",
+    '’': "'",
+    '‚': ',',
+    '“': '"',
+    '”': '"',
+    '„': '"',
+    '–': '-',
+    '—': '-',
+    '…': '...',
+    '•': '*',
+    '×': 'x',
+    '÷': '/',
+    '™': 'TM',
+    '©': '(C)',
+    '®': '(R)',
+    '¼': '1/4',
+    '½': '1/2',
+    '¾': '3/4',
+    'ß': 'ss',
+    'æ': 'ae',
+    'Æ': 'AE',
+    'œ': 'oe',
+    'Œ': 'OE',
+    'ø': 'o',
+    'Ø': 'O',
+    'ł': 'l',
+    'Ł': 'L',
+    'đ': 'd',
+    'Đ': 'D',
+    'ð': 'd',
+    'Ð': 'D',
+    'þ': 'th',
+    'Þ': 'TH',
+    '\u00a0': ' ',
+}
+
+/**
+ * A fallback that spells a character in plain ASCII where it can: accents
+ * are dropped (é to e), ligatures and full-width forms are split up, and
+ * common symbols are written out (€ to EUR). Anything else becomes ?.
+ */
+export function transliterate(character: string) {
+    const mapped = transliterations[character]
+    if (mapped != undefined) return mapped
+
+    const stripped = character.normalize('NFKD').replace(/\p{M}/gu, '')
+
+    return /^[\x20-\x7e]+$/.test(stripped) ? stripped : '?'
+}
+
+function fallbackBytes(character: string, table: CharacterCodeTable, fallback: TextFallback = '?') {
+    const replacement = typeof fallback == 'string' ? fallback : fallback(character)
+
+    // the replacement is printed with the same table, so it can't fall back again
+    return [...replacement].map(x => encodeCharacter(x, table) ?? 0x3f)
+}
+
+/**
+ * Encodes text for the given character code table (the one selected with
+ * ESC t). Characters the table doesn't have are replaced with the fallback.
+ */
+export function encodeText(s: string, table: CharacterCodeTable, options: EncodeTextOptions = {}) {
+    const data: number[] = []
+
+    for (const character of s.normalize('NFC')) {
+        const byte = encodeCharacter(character, table)
+
+        if (byte != undefined) data.push(byte)
+        else data.push(...fallbackBytes(character, table, options.fallback))
+    }
+
+    return data
+}
+
+export type EncodeTextAutoOptions = EncodeTextOptions & {
+    /** The tables to pick from, in order of preference */
+    tables?: CharacterCodeTable[]
+}
+
+/**
+ * Encodes text, switching character code tables with ESC t whenever the
+ * current one doesn't have a character. Of the tables that have it, the one
+ * that covers the most of the text that follows is picked, so there are as
+ * few switches as possible.
+ *
+ * Starts from `table`, the one the printer is on, and returns the one it is
+ * left on along with the data.
+ */
+export function encodeTextAuto(s: string, table: CharacterCodeTable, options: EncodeTextAutoOptions = {}) {
+    const tables = options.tables ?? AUTO_TABLES
+    const characters = [...s.normalize('NFC')]
+    const data: number[] = []
+
+    const run = (from: number, candidate: CharacterCodeTable) => {
+        let i = from
+        while (i < characters.length && encodeCharacter(characters[i]!, candidate) != undefined) i++
+        return i - from
+    }
+
+    for (let i = 0; i < characters.length; i++) {
+        const character = characters[i]!
+        const byte = encodeCharacter(character, table)
+
+        if (byte != undefined) {
+            data.push(byte)
+            continue
+        }
+
+        let best: CharacterCodeTable | undefined = undefined
+        let bestRun = 0
+
+        for (const candidate of tables) {
+            const length = run(i, candidate)
+
+            if (length > bestRun) {
+                best = candidate
+                bestRun = length
+            }
+        }
+
+        if (!best) {
+            data.push(...fallbackBytes(character, table, options.fallback))
+            continue
+        }
+
+        table = best
+        data.push(...selectCharacterCodeTable(table), encodeCharacter(character, table)!)
+    }
+
+    return { data, table }
+}
+
+export type EncodeMultiByteTextOptions = EncodeTextOptions & {
+    /** The code table (ESC t) for characters the encoding doesn't have. Defaults to PC437 */
+    table?: CharacterCodeTable
+    /**
+     * Whether the printer is in Kanji character mode. Leave it out when that
+     * isn't known, as after ESC @ on models that start in it, and the first
+     * character that needs a mode will select it.
+     */
+    kanjiMode?: boolean
+}
+
+/**
+ * Encodes text that mixes multi-byte (Japanese, Chinese or Korean) and
+ * single-byte characters, switching Kanji character mode on (FS &) and off
+ * (FS .) as needed. ASCII prints the same in both modes, so it never causes
+ * a switch. Other characters come from the code table, or the fallback.
+ *
+ * Returns the data along with the mode the printer is left in.
+ */
+export function encodeMultiByteText(s: string, encoding: MultiByteEncoding, options: EncodeMultiByteTextOptions = {}) {
+    const { table = 'pc437-usa-standard-europe', fallback } = options
+    let kanjiMode = options.kanjiMode
+    const data: number[] = []
+
+    const singleByte = (bytes: number[]) => {
+        if (kanjiMode != false && bytes.some(x => x >= 0x80)) {
+            data.push(...cancelKanjiCharacterMode())
+            kanjiMode = false
+        }
+
+        data.push(...bytes)
+    }
+
+    for (const character of s.normalize('NFC')) {
+        const code = character.codePointAt(0) ?? 0
+
+        if (code < 0x80) {
+            data.push(code)
+            continue
+        }
+
+        const bytes = encodeMultiByteCharacter(character, encoding)
+
+        if (bytes) {
+            if (kanjiMode != true) {
+                data.push(...selectKanjiCharacterMode())
+                kanjiMode = true
+            }
+
+            data.push(...bytes)
+            continue
+        }
+
+        const byte = encodeCharacter(character, table)
+
+        if (byte != undefined) singleByte([byte])
+        else singleByte(fallbackBytes(character, table, fallback))
+    }
+
+    return { data, kanjiMode }
+}
+
+
+export type CellOptions = EncodeTextOptions & {
+    /** The code table text is encoded for, or 'auto' as in encodeTextAuto. Defaults to PC437 */
+    table?: CharacterCodeTable | 'auto'
+    /** The tables 'auto' picks from, as in encodeTextAuto */
+    tables?: CharacterCodeTable[]
+    /** The multi-byte encoding, if text is encoded with encodeMultiByteText */
+    encoding?: MultiByteEncoding
+}
+
+/**
+ * How many character cells a character takes up when printed: 2 for
+ * multi-byte characters, 1 for single-byte ones and, for characters that
+ * fall back, the length of the replacement.
+ */
+export function characterCells(character: string, options: CellOptions = {}) {
+    const { table = 'pc437-usa-standard-europe', tables: autoTables = AUTO_TABLES, encoding, fallback = '?' } = options
+    const code = character.codePointAt(0) ?? 0
+
+    if (code < 0x80) return 1
+    if (encoding && encodeMultiByteCharacter(character, encoding)) return 2
+
+    const tables = table == 'auto' ? autoTables : [table]
+    if (tables.some(x => encodeCharacter(character, x) != undefined)) return 1
+
+    // every character of the replacement is printed as one byte, see fallbackBytes
+    return [...typeof fallback == 'string' ? fallback : fallback(character)].length
+}